@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN "expiresAt" DATETIME;
+ALTER TABLE "Link" ADD COLUMN "maxClicks" INTEGER;
+ALTER TABLE "Link" ADD COLUMN "clickCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill redirect counters from recorded clicks
+UPDATE "Link" SET "clickCount" = (SELECT COUNT(*) FROM "Click" WHERE "Click"."linkId" = "Link"."id");
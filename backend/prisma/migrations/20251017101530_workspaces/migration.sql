@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Membership" (
+    "userId" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("userId", "workspaceId"),
+    CONSTRAINT "Membership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Membership_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Existing links move to a default workspace. Existing API keys keep
+-- working as an owner of that workspace.
+INSERT INTO "Workspace" ("id", "name") VALUES ('default', 'Default workspace');
+INSERT INTO "User" ("id", "email", "name")
+SELECT 'legacy-admin', 'admin@localhost', 'Administrator' WHERE EXISTS (SELECT 1 FROM "ApiKey");
+INSERT INTO "Membership" ("userId", "workspaceId", "role")
+SELECT 'legacy-admin', 'default', 'owner' WHERE EXISTS (SELECT 1 FROM "ApiKey");
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Link" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "slug" TEXT NOT NULL,
+    "targetUrl" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "archivedAt" DATETIME,
+    "expiresAt" DATETIME,
+    "maxClicks" INTEGER,
+    "clickCount" INTEGER NOT NULL DEFAULT 0,
+    "passwordHash" TEXT,
+    "workspaceId" TEXT NOT NULL DEFAULT 'default',
+    CONSTRAINT "Link_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Link" ("archivedAt", "clickCount", "createdAt", "expiresAt", "id", "maxClicks", "passwordHash", "slug", "targetUrl") SELECT "archivedAt", "clickCount", "createdAt", "expiresAt", "id", "maxClicks", "passwordHash", "slug", "targetUrl" FROM "Link";
+DROP TABLE "Link";
+ALTER TABLE "new_Link" RENAME TO "Link";
+CREATE UNIQUE INDEX "Link_slug_key" ON "Link"("slug");
+CREATE INDEX "Link_archivedAt_idx" ON "Link"("archivedAt");
+CREATE INDEX "Link_workspaceId_idx" ON "Link"("workspaceId");
+CREATE TABLE "new_ApiKey" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "scopes" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" DATETIME,
+    "revokedAt" DATETIME,
+    CONSTRAINT "ApiKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ApiKey_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_ApiKey" ("createdAt", "id", "keyHash", "lastUsedAt", "name", "prefix", "revokedAt", "scopes", "userId", "workspaceId") SELECT "createdAt", "id", "keyHash", "lastUsedAt", "name", "prefix", "revokedAt", "scopes", 'legacy-admin', 'default' FROM "ApiKey";
+DROP TABLE "ApiKey";
+ALTER TABLE "new_ApiKey" RENAME TO "ApiKey";
+CREATE UNIQUE INDEX "ApiKey_keyHash_key" ON "ApiKey"("keyHash");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE INDEX "Membership_workspaceId_idx" ON "Membership"("workspaceId");
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "Domain" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "host" TEXT,
+    "workspaceId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Domain_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Existing links move to the default domain, which serves every unregistered host
+INSERT INTO "Domain" ("id") VALUES ('default');
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Link" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "slug" TEXT NOT NULL,
+    "targetUrl" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "archivedAt" DATETIME,
+    "expiresAt" DATETIME,
+    "maxClicks" INTEGER,
+    "clickCount" INTEGER NOT NULL DEFAULT 0,
+    "passwordHash" TEXT,
+    "workspaceId" TEXT NOT NULL DEFAULT 'default',
+    "domainId" TEXT NOT NULL DEFAULT 'default',
+    CONSTRAINT "Link_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Link_domainId_fkey" FOREIGN KEY ("domainId") REFERENCES "Domain" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Link" ("archivedAt", "clickCount", "createdAt", "expiresAt", "id", "maxClicks", "passwordHash", "slug", "targetUrl", "workspaceId") SELECT "archivedAt", "clickCount", "createdAt", "expiresAt", "id", "maxClicks", "passwordHash", "slug", "targetUrl", "workspaceId" FROM "Link";
+DROP TABLE "Link";
+ALTER TABLE "new_Link" RENAME TO "Link";
+CREATE INDEX "Link_archivedAt_idx" ON "Link"("archivedAt");
+CREATE INDEX "Link_workspaceId_idx" ON "Link"("workspaceId");
+CREATE UNIQUE INDEX "Link_domainId_slug_key" ON "Link"("domainId", "slug");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Domain_host_key" ON "Domain"("host");
+
+-- CreateIndex
+CREATE INDEX "Domain_workspaceId_idx" ON "Domain"("workspaceId");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN "forwardQuery" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Link" ADD COLUMN "utmSource" TEXT;
+ALTER TABLE "Link" ADD COLUMN "utmMedium" TEXT;
+ALTER TABLE "Link" ADD COLUMN "utmCampaign" TEXT;
+ALTER TABLE "Link" ADD COLUMN "utmTerm" TEXT;
+ALTER TABLE "Link" ADD COLUMN "utmContent" TEXT;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Click" ADD COLUMN "ruleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RedirectRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "linkId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "targetUrl" TEXT NOT NULL,
+    "os" TEXT,
+    "devices" TEXT,
+    "languages" TEXT,
+    "countries" TEXT,
+    CONSTRAINT "RedirectRule_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "Link" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RedirectRule_linkId_position_idx" ON "RedirectRule"("linkId", "position");
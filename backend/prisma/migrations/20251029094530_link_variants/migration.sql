@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Click" ADD COLUMN "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN "stickyVariants" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "LinkVariant" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "linkId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "targetUrl" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL,
+    CONSTRAINT "LinkVariant_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "Link" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LinkVariant_linkId_position_idx" ON "LinkVariant"("linkId", "position");
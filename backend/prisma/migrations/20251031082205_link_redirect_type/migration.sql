@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN "redirectType" INTEGER NOT NULL DEFAULT 302;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN "forcePreview" BOOLEAN NOT NULL DEFAULT false;
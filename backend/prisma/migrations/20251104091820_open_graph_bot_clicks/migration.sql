@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN "ogTitle" TEXT;
+ALTER TABLE "Link" ADD COLUMN "ogDescription" TEXT;
+ALTER TABLE "Link" ADD COLUMN "ogImage" TEXT;
+
+-- AlterTable
+ALTER TABLE "Click" ADD COLUMN "isBot" BOOLEAN NOT NULL DEFAULT false;
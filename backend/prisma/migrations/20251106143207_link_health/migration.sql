@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "LinkHealth" (
+    "linkId" TEXT NOT NULL PRIMARY KEY,
+    "statusCode" INTEGER,
+    "latencyMs" INTEGER NOT NULL,
+    "finalUrl" TEXT,
+    "error" TEXT,
+    "checkedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LinkHealth_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "Link" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LinkHealth_checkedAt_idx" ON "LinkHealth"("checkedAt");
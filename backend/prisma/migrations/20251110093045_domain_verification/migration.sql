@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Domain" ADD COLUMN "verificationToken" TEXT;
+ALTER TABLE "Domain" ADD COLUMN "verifiedAt" DATETIME;
+
+-- Domains registered before ownership checks keep serving redirects
+UPDATE "Domain" SET "verifiedAt" = CURRENT_TIMESTAMP WHERE "host" IS NOT NULL;
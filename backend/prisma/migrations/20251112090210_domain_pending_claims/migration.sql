@@ -0,0 +1,5 @@
+-- Unverified claims no longer block other workspaces from the host
+DROP INDEX "Domain_host_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Domain_host_workspaceId_key" ON "Domain"("host", "workspaceId");
@@ -1,13 +1,27 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
+import { Env } from './env';
 import { errorHandler } from './middleware/error';
+import { requireApiKey } from './middleware/auth';
+import { apiClientRateLimit, apiRateLimit } from './middleware/ratelimit';
 import linksRouter from './routes/links';
 import redirectRouter from './routes/redirect';
+import exportRouter from './routes/export';
+import tagsRouter from './routes/tags';
+import keysRouter from './routes/keys';
+import domainsRouter from './routes/domains';
+import workspacesRouter from './routes/workspaces';
+import webhooksRouter from './routes/webhooks';
 
 const app = express();
 
+// Client IPs (used for rate limiting) come from X-Forwarded-For behind proxies
+app.set('trust proxy', Number(Env.TRUST_PROXY));
+
 // Middleware
-app.use(cors());
+app.use(cors({
+  origin: Env.CORS_ORIGINS === '*' ? true : Env.CORS_ORIGINS.split(',').map(origin => origin.trim())
+}));
 app.use(express.json());
 
 // Health check route
@@ -15,10 +29,18 @@ app.get('/health', (req: Request, res: Response) => {
   res.json({ ok: true });
 });
 
-// API routes
-app.use('/api/v1/links', linksRouter);
-
-// Redirect routes
+// API routes (rate limited per client IP, then API key required and rate
+// limited per key; scoped to the key's workspace, each route checks its own scope)
+const managementApi = [apiClientRateLimit, requireApiKey, apiRateLimit];
+app.use('/api/v1/links', managementApi, linksRouter);
+app.use('/api/v1/export', managementApi, exportRouter);
+app.use('/api/v1/tags', managementApi, tagsRouter);
+app.use('/api/v1/keys', managementApi, keysRouter);
+app.use('/api/v1/domains', managementApi, domainsRouter);
+app.use('/api/v1/workspaces', managementApi, workspacesRouter);
+app.use('/api/v1/webhooks', managementApi, webhooksRouter);
+
+// Redirect routes (public)
 app.use('/', redirectRouter);
 
 // Not found handler
@@ -0,0 +1,54 @@
+import { prisma } from './db';
+import { createApiKey, API_KEY_SCOPES, ApiKeyScope } from './lib/keys';
+import { DEFAULT_WORKSPACE_ID } from './lib/workspaces';
+
+// Usage: npm run keys:create -- <email> <name> [scope,scope,...]
+// Creates the first keys (POST /api/v1/keys itself needs a keys:manage key).
+// The user is created if needed and made an owner of the default workspace
+// unless already a member. Without a scope list the key gets every scope.
+async function main() {
+  const [email, name, scopeList] = process.argv.slice(2);
+  
+  if (!email || !name) {
+    console.error('Usage: npm run keys:create -- <email> <name> [scope,scope,...]');
+    console.error(`Scopes: ${API_KEY_SCOPES.join(', ')}`);
+    process.exit(1);
+  }
+  
+  const scopes = scopeList ? scopeList.split(',').map(scope => scope.trim()) : [...API_KEY_SCOPES];
+  const unknown = scopes.filter(scope => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+  if (unknown.length > 0) {
+    console.error(`Unknown scope(s): ${unknown.join(', ')}. Scopes: ${API_KEY_SCOPES.join(', ')}`);
+    process.exit(1);
+  }
+  
+  const user = await prisma.user.upsert({
+    where: { email: email.toLowerCase() },
+    create: { email: email.toLowerCase() },
+    update: {}
+  });
+  const membership = await prisma.membership.upsert({
+    where: { userId_workspaceId: { userId: user.id, workspaceId: DEFAULT_WORKSPACE_ID } },
+    create: { userId: user.id, workspaceId: DEFAULT_WORKSPACE_ID, role: 'owner' },
+    update: {}
+  });
+  
+  const { apiKey, key } = await createApiKey(name, scopes as ApiKeyScope[], {
+    userId: user.id,
+    workspaceId: DEFAULT_WORKSPACE_ID
+  });
+  
+  console.log(`🔑 Created API key "${apiKey.name}" (${apiKey.prefix}...) for ${user.email} (${membership.role})`);
+  console.log(`   Scopes: ${scopes.join(', ')}`);
+  console.log(`   ${key}`);
+  console.log('   Store it now - it cannot be shown again.');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Key creation failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -8,7 +8,42 @@ if (process.env.NODE_ENV !== 'production') {
 export const Env = {
   NODE_ENV: process.env.NODE_ENV || 'development',
   PORT: process.env.PORT || '3000',
-  DATABASE_URL: process.env.DATABASE_URL || 'file:./dev.db'
+  DATABASE_URL: process.env.DATABASE_URL || 'file:./dev.db',
+  // Days an archived link stays in the trash before it is permanently purged
+  TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS || '30',
+  // Comma-separated browser origins allowed to call the API ("*" allows any)
+  CORS_ORIGINS: process.env.CORS_ORIGINS || 'http://localhost:5173',
+  // Requests per window per API key (management API) and per IP (redirects); 0 disables
+  API_RATE_LIMIT: process.env.API_RATE_LIMIT || '300',
+  API_RATE_WINDOW_SECONDS: process.env.API_RATE_WINDOW_SECONDS || '60',
+  // Management API requests per window per client IP, counted before the key is checked
+  API_IP_RATE_LIMIT: process.env.API_IP_RATE_LIMIT || '1200',
+  REDIRECT_RATE_LIMIT: process.env.REDIRECT_RATE_LIMIT || '120',
+  REDIRECT_RATE_WINDOW_SECONDS: process.env.REDIRECT_RATE_WINDOW_SECONDS || '60',
+  // Optional file of blocked (and "allow ...") target hosts, re-read when it changes
+  DESTINATION_POLICY_FILE: process.env.DESTINATION_POLICY_FILE || '',
+  // How slugs are generated when none is given: random, words, counter or hash
+  SLUG_STRATEGY: process.env.SLUG_STRATEGY || 'random',
+  // Characters of random, counter and hash slugs (before automatic lengthening)
+  SLUG_LENGTH: process.env.SLUG_LENGTH || '7',
+  // Characters random and counter slugs are made of
+  SLUG_ALPHABET: process.env.SLUG_ALPHABET || '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
+  // Words in word-based slugs
+  SLUG_WORD_COUNT: process.env.SLUG_WORD_COUNT || '3',
+  // Shuffles the alphabet of counter slugs so they don't read as plain numbers
+  SLUG_SALT: process.env.SLUG_SALT || '',
+  // Comma-separated slugs reserved in addition to the built-in list (api, admin, health, ...)
+  RESERVED_SLUGS: process.env.RESERVED_SLUGS || '',
+  // Optional file of words slugs may not contain (and "allow ..." exceptions), re-read when it changes
+  SLUG_POLICY_FILE: process.env.SLUG_POLICY_FILE || '',
+  // Optional IP-to-country CSV database for country redirect rules, re-read when it changes
+  GEOIP_FILE: process.env.GEOIP_FILE || '',
+  // Minutes between background checks of a link's target; 0 disables them
+  HEALTH_CHECK_INTERVAL_MINUTES: process.env.HEALTH_CHECK_INTERVAL_MINUTES || '360',
+  // Comma-separated hosts the shortener itself is served on; they can't be registered as branded domains
+  SHORTENER_HOSTS: process.env.SHORTENER_HOSTS || '',
+  // Reverse proxies in front of the app, so client IPs come from X-Forwarded-For
+  TRUST_PROXY: process.env.TRUST_PROXY || '0'
 } as const;
 
 // Basic validation
@@ -19,3 +54,36 @@ if (!Env.PORT || isNaN(Number(Env.PORT))) {
 if (!Env.DATABASE_URL) {
   throw new Error('DATABASE_URL is required');
 }
+
+if (isNaN(Number(Env.TRASH_RETENTION_DAYS)) || Number(Env.TRASH_RETENTION_DAYS) < 0) {
+  throw new Error('Invalid TRASH_RETENTION_DAYS environment variable');
+}
+
+for (const name of ['API_RATE_LIMIT', 'API_IP_RATE_LIMIT', 'REDIRECT_RATE_LIMIT', 'TRUST_PROXY', 'HEALTH_CHECK_INTERVAL_MINUTES'] as const) {
+  if (!Number.isInteger(Number(Env[name])) || Number(Env[name]) < 0) {
+    throw new Error(`Invalid ${name} environment variable`);
+  }
+}
+
+for (const name of ['API_RATE_WINDOW_SECONDS', 'REDIRECT_RATE_WINDOW_SECONDS'] as const) {
+  if (isNaN(Number(Env[name])) || Number(Env[name]) <= 0) {
+    throw new Error(`Invalid ${name} environment variable`);
+  }
+}
+
+// Keep in sync with SLUG_STRATEGIES in lib/slug.ts
+if (!['random', 'words', 'counter', 'hash'].includes(Env.SLUG_STRATEGY)) {
+  throw new Error('Invalid SLUG_STRATEGY environment variable');
+}
+
+if (!Number.isInteger(Number(Env.SLUG_LENGTH)) || Number(Env.SLUG_LENGTH) < 4 || Number(Env.SLUG_LENGTH) > 32) {
+  throw new Error('Invalid SLUG_LENGTH environment variable');
+}
+
+if (!Number.isInteger(Number(Env.SLUG_WORD_COUNT)) || Number(Env.SLUG_WORD_COUNT) < 1 || Number(Env.SLUG_WORD_COUNT) > 6) {
+  throw new Error('Invalid SLUG_WORD_COUNT environment variable');
+}
+
+if (!/^[A-Za-z0-9_-]+$/.test(Env.SLUG_ALPHABET) || new Set(Env.SLUG_ALPHABET).size !== Env.SLUG_ALPHABET.length || Env.SLUG_ALPHABET.length < 16) {
+  throw new Error('Invalid SLUG_ALPHABET environment variable');
+}
@@ -0,0 +1,48 @@
+// Failed attempts per key within the current window
+const attempts = new Map<string, { count: number; resetAt: number }>();
+
+export const MAX_FAILED_ATTEMPTS = 5;
+export const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Check whether a key has used up its failed attempts
+ * @param key Identifier being protected (e.g. a link id)
+ * @param now Current time in ms (default: Date.now())
+ * @returns Seconds until attempts are allowed again, or 0 if not blocked
+ */
+export function blockedFor(key: string, now: number = Date.now()): number {
+  const entry = attempts.get(key);
+  if (!entry || entry.resetAt <= now) {
+    attempts.delete(key);
+    return 0;
+  }
+  
+  if (entry.count < MAX_FAILED_ATTEMPTS) {
+    return 0;
+  }
+  
+  return Math.ceil((entry.resetAt - now) / 1000);
+}
+
+/**
+ * Record a failed attempt for a key, starting a new window if needed
+ * @param key Identifier being protected
+ * @param now Current time in ms (default: Date.now())
+ */
+export function recordFailedAttempt(key: string, now: number = Date.now()): void {
+  const entry = attempts.get(key);
+  if (!entry || entry.resetAt <= now) {
+    attempts.set(key, { count: 1, resetAt: now + ATTEMPT_WINDOW_MS });
+    return;
+  }
+  
+  entry.count++;
+}
+
+/**
+ * Forget failed attempts for a key (after a successful attempt)
+ * @param key Identifier being protected
+ */
+export function clearAttempts(key: string): void {
+  attempts.delete(key);
+}
@@ -0,0 +1,108 @@
+/**
+ * Parse CSV text (RFC 4180: quoted fields, "" escapes, CRLF or LF line endings)
+ * @param text CSV document
+ * @returns Rows of fields; blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Quotes only open a quoted field at its very start; elsewhere they are literal
+  let atFieldStart = true;
+  
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  
+  const endRow = () => {
+    row.push(field);
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+    atFieldStart = true;
+  };
+  
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && atFieldStart) {
+      inQuotes = true;
+      atFieldStart = false;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+      atFieldStart = true;
+    } else if (char === '\n' || char === '\r') {
+      // Treat CRLF as a single line break
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+      atFieldStart = false;
+    }
+  }
+  
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+  
+  // Last row without a trailing newline
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  
+  return rows;
+}
+
+/**
+ * Convert CSV rows with a header line into objects keyed by header name
+ * @param rows Parsed rows, the first one being the header
+ * @returns One object per data row; empty cells are left out
+ */
+export function csvToObjects(rows: string[][]): Record<string, string>[] {
+  const [header = [], ...data] = rows;
+  const keys = header.map(name => name.trim());
+  
+  return data.map(values => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      const value = (values[index] ?? '').trim();
+      if (key && value !== '') {
+        record[key] = value;
+      }
+    });
+    return record;
+  });
+}
+
+/**
+ * Format values as one CSV line, quoting fields that need it
+ * @param values Cell values; null and undefined become empty cells
+ * @returns CSV line without the trailing newline
+ */
+export function toCsvLine(values: (string | number | boolean | Date | null | undefined)[]): string {
+  return values
+    .map(value => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+      
+      const text = value instanceof Date ? value.toISOString() : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+}
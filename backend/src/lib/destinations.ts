@@ -0,0 +1,123 @@
+import { readFileSync, statSync } from 'fs';
+import { BlockList, isIP } from 'net';
+import { Env } from '../env';
+import { normalizeHost } from './domains';
+
+// Addresses a public short link should never send visitors to
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4'); // "This" network
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4'); // Private
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4'); // Carrier-grade NAT
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4'); // Loopback
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4'); // Link-local
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4'); // Private
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4'); // Private
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6'); // Unspecified
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6'); // Loopback
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6'); // Unique local
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6'); // Link-local
+
+// Host lists loaded from DESTINATION_POLICY_FILE
+interface DestinationPolicy {
+  blocked: Set<string>;
+  allowed: Set<string>;
+}
+
+let cachedPolicy: { mtimeMs: number; policy: DestinationPolicy } | null = null;
+
+/**
+ * Parse a destination policy file. Each line is a host to block, or
+ * "allow <host>" to exempt a host from the blocklist; entries also match
+ * subdomains. Blank lines and "#" comments are ignored.
+ * @param text File contents
+ * @returns Blocked and allowed hosts
+ */
+export function parseDestinationPolicy(text: string): DestinationPolicy {
+  const policy: DestinationPolicy = { blocked: new Set(), allowed: new Set() };
+  
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim().toLowerCase();
+    if (!line) {
+      continue;
+    }
+    
+    const allow = line.match(/^allow\s+(\S+)$/);
+    if (allow) {
+      policy.allowed.add(allow[1].replace(/\.$/, ''));
+    } else {
+      policy.blocked.add(line.replace(/\.$/, ''));
+    }
+  }
+  
+  return policy;
+}
+
+// Helper function to load the policy file, re-reading it when it changes
+function loadDestinationPolicy(): DestinationPolicy | null {
+  if (!Env.DESTINATION_POLICY_FILE) {
+    return null;
+  }
+  
+  const { mtimeMs } = statSync(Env.DESTINATION_POLICY_FILE);
+  if (cachedPolicy?.mtimeMs !== mtimeMs) {
+    cachedPolicy = {
+      mtimeMs,
+      policy: parseDestinationPolicy(readFileSync(Env.DESTINATION_POLICY_FILE, 'utf8'))
+    };
+  }
+  
+  return cachedPolicy.policy;
+}
+
+// Helper function to check a host and its parent domains against a host list
+function matchesHost(hosts: Set<string>, hostname: string) {
+  const labels = hostname.split('.');
+  return labels.some((_, index) => hosts.has(labels.slice(index).join('.')));
+}
+
+/**
+ * Check whether an IP address is private, loopback or link-local.
+ * IPv4-mapped IPv6 addresses are checked as IPv4.
+ * @param address IPv4 or IPv6 address (without brackets)
+ * @returns True if the address is not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  return version !== 0 && PRIVATE_ADDRESSES.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Reject link targets that are unsafe to redirect to: hosts on the local
+ * blocklist (unless allowlisted), private/loopback/link-local addresses,
+ * and short links of this shortener, which could redirect in a loop.
+ * Throws DESTINATION_BLOCKED (400) with the reason.
+ * @param targetUrl Validated http(s) target URL
+ * @param shortenerHosts Hosts short links are served on (see listShortenerHosts)
+ */
+export function checkDestination(targetUrl: string, shortenerHosts: string[] = []) {
+  const url = new URL(targetUrl);
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  
+  const reject = (message: string) => {
+    throw {
+      status: 400,
+      code: 'DESTINATION_BLOCKED',
+      message
+    };
+  };
+  
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    reject('Target URL points to a private or local address');
+  }
+  
+  // Routes match case-insensitively, so /R/slug redirects too; /p/ (preview)
+  // and "/r/slug+" lead on to the redirect as well
+  if (shortenerHosts.includes(normalizeHost(url.host)) && /^\/[rp]\//.test(url.pathname.toLowerCase())) {
+    reject('Target URL points back at this shortener');
+  }
+  
+  const policy = loadDestinationPolicy();
+  if (policy && matchesHost(policy.blocked, hostname) && !matchesHost(policy.allowed, hostname)) {
+    reject('Target URL host is blocked');
+  }
+}
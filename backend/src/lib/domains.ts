@@ -0,0 +1,205 @@
+import { randomBytes } from 'crypto';
+import { promises as dns } from 'dns';
+import type { Domain, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { Env } from '../env';
+
+// Domain that pre-existing links were migrated into; it serves every host
+// that is not registered as a branded domain
+export const DEFAULT_DOMAIN_ID = 'default';
+
+// Ownership proof: a TXT record at _shortener-verification.<host> holding
+// "shortener-verification=<token>"
+const VERIFICATION_RECORD_PREFIX = '_shortener-verification';
+const VERIFICATION_VALUE_PREFIX = 'shortener-verification=';
+
+// Resolves the TXT records of a name, like dns.promises.resolveTxt
+export type ResolveTxt = (hostname: string) => Promise<string[][]>;
+
+/**
+ * Normalize a host for lookups: lowercase, without a trailing dot
+ * @param host Host header value or registered host
+ * @returns Normalized host
+ */
+export function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/\.(?=:\d+$|$)/, '');
+}
+
+/**
+ * Resolve the domain a redirect request was made on
+ * @param host Request Host header
+ * @returns Id of the branded domain for the host, or the default domain
+ */
+export async function resolveDomainId(host: string | undefined): Promise<string> {
+  if (!host) {
+    return DEFAULT_DOMAIN_ID;
+  }
+  
+  // Hosts whose ownership hasn't been proven yet stay on the default domain
+  const domain = await prisma.domain.findFirst({
+    where: { host: normalizeHost(host), verifiedAt: { not: null } },
+    select: { id: true }
+  });
+  
+  return domain?.id ?? DEFAULT_DOMAIN_ID;
+}
+
+/**
+ * Look up a domain a workspace may create links on, throwing NOT_FOUND (404)
+ * otherwise. Branded domains of other workspaces count as missing.
+ * @param host Registered host, or null/undefined for the default domain
+ * @param workspaceId Caller's workspace
+ * @param db Prisma client or transaction client (default: shared client)
+ * @returns Domain id
+ */
+export async function findDomainIdOrThrow(
+  host: string | null | undefined,
+  workspaceId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<string> {
+  if (!host) {
+    return DEFAULT_DOMAIN_ID;
+  }
+  
+  const domain = await db.domain.findFirst({
+    where: { host: normalizeHost(host), workspaceId },
+    select: { id: true }
+  });
+  
+  if (!domain) {
+    throw {
+      status: 404,
+      code: 'NOT_FOUND',
+      message: 'Domain not found'
+    };
+  }
+  
+  return domain.id;
+}
+
+/**
+ * List every host short links are served on, so link targets pointing back
+ * at the shortener can be recognized
+ * @param requestHost Host the current request was made on, if any
+ * @returns Hosts of all branded domains plus the configured and request hosts
+ */
+export async function listShortenerHosts(requestHost?: string): Promise<string[]> {
+  const domains = await prisma.domain.findMany({
+    where: { host: { not: null } },
+    select: { host: true }
+  });
+  
+  return [
+    ...(requestHost ? [normalizeHost(requestHost)] : []),
+    ...configuredHosts(),
+    ...domains.map(domain => domain.host!)
+  ];
+}
+
+// Helper function to read SHORTENER_HOSTS
+function configuredHosts(): string[] {
+  return Env.SHORTENER_HOSTS.split(',').map(host => normalizeHost(host)).filter(Boolean);
+}
+
+// Helper function to drop the port from a host
+function hostname(host: string): string {
+  return host.replace(/:\d+$/, '');
+}
+
+/**
+ * Check whether a host belongs to the shortener itself (SHORTENER_HOSTS, the
+ * host the API was called on, or localhost). Registering one of these as a
+ * branded domain would take over the default domain's links on it.
+ * @param host Normalized host to register
+ * @param requestHost Host the current request was made on, if any
+ * @returns True when the host must not be registered
+ */
+export function isShortenerHost(host: string, requestHost?: string): boolean {
+  const own = [
+    'localhost',
+    ...configuredHosts(),
+    ...(requestHost ? [normalizeHost(requestHost)] : [])
+  ].map(hostname);
+  
+  return own.includes(hostname(host));
+}
+
+/**
+ * Generate the token a workspace publishes to prove it controls a host
+ * @returns Random hex token
+ */
+export function generateVerificationToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Describe the DNS record that proves ownership of a branded domain
+ * @param domain Registered host and its verification token
+ * @returns TXT record name and value to publish
+ */
+export function verificationRecord(domain: { host: string; verificationToken: string }) {
+  return {
+    type: 'TXT' as const,
+    name: `${VERIFICATION_RECORD_PREFIX}.${hostname(domain.host)}`,
+    value: VERIFICATION_VALUE_PREFIX + domain.verificationToken
+  };
+}
+
+/**
+ * Look up a branded domain's TXT record and mark the domain verified when it
+ * holds the expected value. Pending claims of other workspaces on the same
+ * host are dropped along with their links. Verified domains are returned
+ * unchanged.
+ * @param domain Registered branded domain
+ * @param resolveTxt TXT record resolution (default: DNS)
+ * @returns Verified domain
+ * @throws VERIFICATION_FAILED (409) if the record is missing or doesn't match
+ * @throws DOMAIN_TAKEN (409) if another workspace verified the host first
+ */
+export async function verifyDomain(domain: Domain, resolveTxt: ResolveTxt = dns.resolveTxt): Promise<Domain> {
+  if (domain.verifiedAt || !domain.host || !domain.verificationToken) {
+    return domain;
+  }
+  
+  const record = verificationRecord({ host: domain.host, verificationToken: domain.verificationToken });
+  let records: string[][] = [];
+  try {
+    records = await resolveTxt(record.name);
+  } catch {
+    // No such record (yet); reported below like a wrong value
+  }
+  
+  // Long TXT values arrive split into chunks
+  if (!records.some(chunks => chunks.join('') === record.value)) {
+    throw {
+      status: 409,
+      code: 'VERIFICATION_FAILED',
+      message: `TXT record ${record.name} with value ${record.value} not found`
+    };
+  }
+  
+  const host = domain.host;
+  return prisma.$transaction(async (tx) => {
+    const taken = await tx.domain.findFirst({
+      where: { host, verifiedAt: { not: null }, id: { not: domain.id } },
+      select: { id: true }
+    });
+    
+    if (taken) {
+      throw {
+        status: 409,
+        code: 'DOMAIN_TAKEN',
+        message: 'Domain is already registered'
+      };
+    }
+    
+    await tx.domain.deleteMany({
+      where: { host, id: { not: domain.id } }
+    });
+    
+    return tx.domain.update({
+      where: { id: domain.id },
+      data: { verifiedAt: new Date() }
+    });
+  });
+}
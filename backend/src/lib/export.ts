@@ -0,0 +1,86 @@
+import type { Writable } from 'stream';
+import { toCsvLine } from './csv';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export type ExportValue = string | number | boolean | Date | null;
+
+export interface ExportColumn<T> {
+  name: string;
+  value: (row: T) => ExportValue;
+}
+
+// Rows fetched from the database per round trip
+export const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Page through a table with keyset pagination so only one batch is held in
+ * memory at a time
+ * @param fetchPage Loads up to `take` rows after the row with id `cursor`
+ * @returns Async iterator of non-empty batches
+ */
+export async function* inBatches<T extends { id: string }>(
+  fetchPage: (cursor: string | undefined, take: number) => Promise<T[]>
+): AsyncGenerator<T[]> {
+  let cursor: string | undefined;
+  
+  while (true) {
+    const page = await fetchPage(cursor, EXPORT_BATCH_SIZE);
+    if (page.length > 0) {
+      yield page;
+    }
+    if (page.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    cursor = page[page.length - 1].id;
+  }
+}
+
+/**
+ * Serialize batches as CSV (with a header line) or NDJSON and write them to a
+ * stream, waiting for the client to drain before fetching more
+ * @param out Destination stream (e.g. the Express response)
+ * @param format Output format
+ * @param columns Column names and how to read them from a row
+ * @param batches Rows to export
+ */
+export async function writeExport<T>(
+  out: Writable,
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  batches: AsyncIterable<T[]>
+): Promise<void> {
+  const formatRow = (row: T) => {
+    if (format === 'csv') {
+      return toCsvLine(columns.map(column => column.value(row)));
+    }
+    return JSON.stringify(Object.fromEntries(columns.map(column => [column.name, column.value(row)])));
+  };
+  
+  if (format === 'csv') {
+    out.write(toCsvLine(columns.map(column => column.name)) + '\n');
+  }
+  
+  for await (const batch of batches) {
+    // Stop early if the client went away
+    if (out.destroyed) {
+      return;
+    }
+    
+    const chunk = batch.map(row => formatRow(row) + '\n').join('');
+    if (!out.write(chunk)) {
+      await new Promise<void>(resolve => {
+        // Whichever fires first wins; drop the other so pauses don't pile up listeners
+        const done = () => {
+          out.off('drain', done);
+          out.off('close', done);
+          resolve();
+        };
+        out.on('drain', done);
+        out.on('close', done);
+      });
+    }
+  }
+  
+  out.end();
+}
@@ -0,0 +1,122 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import type { LookupFunction } from 'net';
+import { isPrivateAddress } from './destinations';
+
+export interface FetchedResource {
+  url: URL; // Where the response came from, after redirects
+  status: number;
+  location?: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export interface FetchOptions {
+  method?: 'GET' | 'HEAD' | 'POST'; // Default GET
+  body?: string; // Request body, sent again on every redirect
+  headers?: Record<string, string>; // Extra request headers
+  maxBytes: number; // Body bytes kept; the download stops there
+  maxRedirects: number;
+  timeoutMs: number; // For the whole request, redirects included
+  userAgent: string;
+  accept?: string;
+  lookup?: LookupFunction; // Host name resolution (default: public addresses only)
+}
+
+/**
+ * Resolve host names like dns.lookup, but refuse private, loopback and
+ * link-local addresses so server-side fetches can't probe internal services
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+    
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`Refusing to fetch ${hostname}: not a public address`), '', 0);
+    }
+    
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Helper function to request a URL without following redirects, keeping at
+// most maxBytes of the body
+function fetchOnce(url: URL, options: FetchOptions, signal: AbortSignal): Promise<FetchedResource> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    return Promise.reject(new Error(`Refusing to fetch ${hostname}: not a public address`));
+  }
+  
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.request(url, {
+      method: options.method ?? 'GET',
+      lookup: options.lookup ?? publicLookup,
+      signal,
+      headers: {
+        ...options.headers,
+        'User-Agent': options.userAgent,
+        Accept: options.accept ?? '*/*'
+      }
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      
+      const finish = () => resolve({
+        url,
+        status: res.statusCode ?? 0,
+        location: res.headers.location,
+        contentType: res.headers['content-type'] ?? '',
+        body: Buffer.concat(chunks).subarray(0, options.maxBytes)
+      });
+      
+      res.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= options.maxBytes) {
+          // Got what the caller needs; stop downloading the rest
+          finish();
+          res.destroy();
+        }
+      });
+      res.on('end', finish);
+      res.on('error', reject);
+    });
+    
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+/**
+ * Request a URL from the server side, following a few redirects. Private
+ * and local addresses are refused, also when a redirect leads there.
+ * @param url URL to request
+ * @param options Method, limits and headers
+ * @returns Final response with its (possibly truncated) body
+ * @throws Error if the host is refused or unreachable, the request times out,
+ *   or there are too many or non-http(s) redirects
+ */
+export async function fetchResource(url: URL, options: FetchOptions): Promise<FetchedResource> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  
+  for (let redirects = 0; ; redirects++) {
+    const resource = await fetchOnce(url, options, signal);
+    if (resource.status < 300 || resource.status >= 400 || !resource.location) {
+      return resource;
+    }
+    
+    url = new URL(resource.location, url);
+    if (redirects >= options.maxRedirects || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      throw new Error('Too many or unsupported redirects');
+    }
+  }
+}
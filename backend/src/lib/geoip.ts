@@ -0,0 +1,189 @@
+import { promises as fs } from 'fs';
+import { isIP } from 'net';
+import { Env } from '../env';
+
+// One address range of the GeoIP database, as integers
+interface CountryRange {
+  start: bigint;
+  end: bigint;
+  country: string;
+}
+
+// Ranges per IP version, sorted by start for binary search
+interface GeoIpDatabase {
+  ipv4: CountryRange[];
+  ipv6: CountryRange[];
+}
+
+// How often GEOIP_FILE is checked for changes, in the background
+const GEOIP_RECHECK_MS = 60 * 1000;
+
+// Database loaded from GEOIP_FILE; redirects only ever read this copy
+let cachedDatabase: { file: string; mtimeMs: number; database: GeoIpDatabase } | null = null;
+let refreshing: Promise<void> | null = null;
+let lastRefreshAt = 0;
+
+// File whose read failure was already logged, so a missing file logs once
+let failedFile: string | null = null;
+
+// Helper function to turn an IPv4 or IPv6 address into an integer.
+// IPv4-mapped IPv6 addresses are returned as IPv4.
+function addressToInt(address: string): { version: 4 | 6; value: bigint } | null {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    address = mapped[1];
+  }
+  
+  const version = isIP(address);
+  if (version === 4) {
+    const value = address.split('.').reduce((sum, octet) => (sum << 8n) + BigInt(octet), 0n);
+    return { version, value };
+  }
+  
+  if (version === 6) {
+    // Expand an embedded IPv4 tail and the "::" shorthand into 8 groups
+    const withoutV4 = address.replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_, a, b, c, d) =>
+      `${((+a << 8) + +b).toString(16)}:${((+c << 8) + +d).toString(16)}`
+    );
+    const [head, tail] = withoutV4.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = tail === undefined
+      ? headGroups
+      : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+      
+    const value = groups.reduce((sum, group) => (sum << 16n) + BigInt(parseInt(group, 16)), 0n);
+    return { version, value };
+  }
+  
+  return null;
+}
+
+/**
+ * Parse an IP-to-country database in CSV form. Each line is either
+ * "<network>/<prefix>,<country>" or "<first ip>,<last ip>,<country>" (the
+ * layout of the free DB-IP and IP2Location country files); further columns,
+ * a header row, blank lines and "#" comments are ignored.
+ * @param text File contents
+ * @returns Sorted ranges per IP version
+ */
+export function parseGeoIpDatabase(text: string): GeoIpDatabase {
+  const database: GeoIpDatabase = { ipv4: [], ipv6: [] };
+  
+  for (const rawLine of text.split(/\r?\n/)) {
+    const fields = rawLine.replace(/#.*$/, '').split(',').map(field => field.trim().replace(/^"|"$/g, ''));
+    
+    let start: ReturnType<typeof addressToInt>;
+    let end: ReturnType<typeof addressToInt>;
+    let country: string | undefined;
+    
+    const cidr = fields[0].match(/^(.+)\/(\d{1,3})$/);
+    if (cidr) {
+      start = addressToInt(cidr[1]);
+      const bits = start?.version === 4 ? 32n : 128n;
+      const hostBits = bits - BigInt(cidr[2]);
+      end = start && hostBits >= 0n ? { ...start, value: start.value | ((1n << hostBits) - 1n) } : null;
+      country = fields[1];
+    } else {
+      start = addressToInt(fields[0]);
+      end = fields[1] ? addressToInt(fields[1]) : null;
+      country = fields[2];
+    }
+    
+    // Skips the header row and anything else that isn't a range
+    if (!start || !end || start.version !== end.version || !country || !/^[A-Za-z]{2}$/.test(country)) {
+      continue;
+    }
+    
+    const ranges = start.version === 4 ? database.ipv4 : database.ipv6;
+    ranges.push({ start: start.value, end: end.value, country: country.toUpperCase() });
+  }
+  
+  for (const ranges of [database.ipv4, database.ipv6]) {
+    ranges.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  }
+  
+  return database;
+}
+
+// Helper function to load the database file, re-reading it when it changes.
+// A file that can't be read leaves every country unknown.
+async function loadGeoIpDatabase() {
+  const file = Env.GEOIP_FILE;
+  if (!file) {
+    cachedDatabase = null;
+    return;
+  }
+  
+  try {
+    const { mtimeMs } = await fs.stat(file);
+    if (cachedDatabase?.file !== file || cachedDatabase.mtimeMs !== mtimeMs) {
+      cachedDatabase = {
+        file,
+        mtimeMs,
+        database: parseGeoIpDatabase(await fs.readFile(file, 'utf8'))
+      };
+    }
+    failedFile = null;
+    
+  } catch (error) {
+    cachedDatabase = null;
+    if (failedFile !== file) {
+      failedFile = file;
+      console.error(`Failed to load GEOIP_FILE ${file}; countries are unknown until it can be read:`, error);
+    }
+  }
+}
+
+/**
+ * Load GEOIP_FILE, or re-read it if it changed since it was last loaded.
+ * Called at startup; lookupCountry also calls it in the background every
+ * minute so redirects never wait on the file.
+ * @returns Resolves once the loaded database is up to date
+ */
+export function refreshGeoIpDatabase(): Promise<void> {
+  if (!refreshing) {
+    lastRefreshAt = Date.now();
+    refreshing = loadGeoIpDatabase().finally(() => {
+      refreshing = null;
+    });
+  }
+  
+  return refreshing;
+}
+
+/**
+ * Look up the country of an IP address in the loaded GEOIP_FILE database
+ * (see refreshGeoIpDatabase)
+ * @param address Client IPv4 or IPv6 address
+ * @returns ISO 3166-1 alpha-2 country code, or null if unknown (or no database is loaded)
+ */
+export function lookupCountry(address: string | undefined): string | null {
+  if (Date.now() - lastRefreshAt >= GEOIP_RECHECK_MS) {
+    void refreshGeoIpDatabase();
+  }
+  
+  const database = cachedDatabase?.file === Env.GEOIP_FILE ? cachedDatabase.database : null;
+  const ip = address ? addressToInt(address) : null;
+  if (!database || !ip) {
+    return null;
+  }
+  
+  // Binary search for the last range starting at or before the address
+  const ranges = ip.version === 4 ? database.ipv4 : database.ipv6;
+  let low = 0;
+  let high = ranges.length - 1;
+  let found: CountryRange | null = null;
+  
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (ranges[mid].start <= ip.value) {
+      found = ranges[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  
+  return found && ip.value <= found.end ? found.country : null;
+}
@@ -0,0 +1,151 @@
+import type { LookupFunction } from 'net';
+import type { LinkHealth } from '@prisma/client';
+import { prisma } from '../db';
+import { Env } from '../env';
+import { fetchResource, FetchOptions, FetchedResource } from './fetcher';
+
+// Outcome of checking one target URL
+export interface HealthResult {
+  statusCode: number | null;
+  latencyMs: number;
+  finalUrl: string | null;
+  error: string | null;
+}
+
+// Links checked per run, and how many at the same time
+const CHECK_BATCH_SIZE = 50;
+const CHECK_CONCURRENCY = 4;
+
+const CHECK_OPTIONS: FetchOptions = {
+  maxBytes: 1, // The status is all that matters; GET fallbacks stop reading right away
+  maxRedirects: 5,
+  timeoutMs: 5000,
+  userAgent: 'Mozilla/5.0 (compatible; LinkHealthCheck/1.0)'
+};
+
+// Helper function to time one request, turning failures into a result
+async function timedFetch(url: URL, options: FetchOptions): Promise<{ resource?: FetchedResource; error?: string; latencyMs: number }> {
+  const started = Date.now();
+  try {
+    const resource = await fetchResource(url, options);
+    return { resource, latencyMs: Date.now() - started };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error), latencyMs: Date.now() - started };
+  }
+}
+
+/**
+ * Check whether a link's health result counts as broken
+ * @param health Latest check result
+ * @returns True when the target was unreachable or answered with 4xx/5xx
+ */
+export function isBroken(health: Pick<LinkHealth, 'statusCode'>): boolean {
+  return health.statusCode === null || health.statusCode >= 400;
+}
+
+/**
+ * Request a target URL with HEAD, falling back to GET when HEAD fails or gets
+ * an error status (plenty of servers don't implement it). Redirects are followed.
+ * @param targetUrl URL to check
+ * @param lookup Host name resolution (default: public addresses only)
+ * @returns Status, latency and final URL of the better of the two attempts
+ */
+export async function checkTarget(targetUrl: string, lookup?: LookupFunction): Promise<HealthResult> {
+  const url = new URL(targetUrl);
+  let attempt = await timedFetch(url, { ...CHECK_OPTIONS, method: 'HEAD', lookup });
+  
+  if (!attempt.resource || attempt.resource.status >= 400) {
+    const fallback = await timedFetch(url, { ...CHECK_OPTIONS, method: 'GET', lookup });
+    // Keep the HEAD status if GET didn't get an answer at all
+    if (fallback.resource || !attempt.resource) {
+      attempt = fallback;
+    }
+  }
+  
+  const { resource, error, latencyMs } = attempt;
+  const finalUrl = resource?.url.toString();
+  return {
+    statusCode: resource?.status ?? null,
+    latencyMs,
+    finalUrl: finalUrl && finalUrl !== url.toString() ? finalUrl : null,
+    error: error ?? null
+  };
+}
+
+/**
+ * Check one link's target now and store the result
+ * @param link Link id and target URL
+ * @param lookup Host name resolution (default: public addresses only)
+ * @returns Stored health row
+ */
+export async function checkLinkHealth(link: { id: string; targetUrl: string }, lookup?: LookupFunction): Promise<LinkHealth> {
+  const result = await checkTarget(link.targetUrl, lookup);
+  const data = { ...result, checkedAt: new Date() };
+  
+  return prisma.linkHealth.upsert({
+    where: { linkId: link.id },
+    create: { linkId: link.id, ...data },
+    update: data
+  });
+}
+
+/**
+ * Check the targets of active links that were never checked or not within
+ * HEALTH_CHECK_INTERVAL_MINUTES, oldest results first. A run is capped at
+ * one batch so the background job stays short; the next run continues.
+ * @param options Reference time and host name resolution (for tests)
+ * @returns Number of links checked
+ */
+export async function checkStaleLinks(options: { now?: Date; lookup?: LookupFunction } = {}): Promise<number> {
+  const now = options.now ?? new Date();
+  const cutoff = new Date(now.getTime() - Number(Env.HEALTH_CHECK_INTERVAL_MINUTES) * 60 * 1000);
+  
+  const [unchecked, stale] = await Promise.all([
+    prisma.link.findMany({
+      where: { archivedAt: null, health: { is: null } },
+      select: { id: true, targetUrl: true },
+      orderBy: { createdAt: 'asc' },
+      take: CHECK_BATCH_SIZE
+    }),
+    prisma.linkHealth.findMany({
+      where: { checkedAt: { lt: cutoff }, link: { archivedAt: null } },
+      select: { link: { select: { id: true, targetUrl: true } } },
+      orderBy: { checkedAt: 'asc' },
+      take: CHECK_BATCH_SIZE
+    })
+  ]);
+  const queue = [...unchecked, ...stale.map(health => health.link)].slice(0, CHECK_BATCH_SIZE);
+  const total = queue.length;
+  
+  // A few workers take links off the queue until it is empty
+  await Promise.all(Array.from({ length: CHECK_CONCURRENCY }, async () => {
+    for (let link = queue.shift(); link; link = queue.shift()) {
+      try {
+        await checkLinkHealth(link, options.lookup);
+      } catch (error: any) {
+        // Links purged during the run can't get a result; skip them
+        if (error.code !== 'P2003') {
+          throw error;
+        }
+      }
+    }
+  }));
+  
+  return total;
+}
+
+/**
+ * Shape a link's health for API responses
+ * @param health Latest check result, if the link was checked yet
+ * @returns Health with an ok/broken status, or null
+ */
+export function serializeHealth(health: LinkHealth | null) {
+  return health && {
+    status: isBroken(health) ? 'broken' as const : 'ok' as const,
+    statusCode: health.statusCode,
+    latencyMs: health.latencyMs,
+    finalUrl: health.finalUrl,
+    error: health.error,
+    checkedAt: health.checkedAt
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Escape a string for safe use in HTML text and attribute values
+ * @param value Untrusted string
+ * @returns Escaped string
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the password prompt shown for protected links
+ * @param slug Slug of the protected link
+ * @param error Optional message shown above the form
+ * @param search Query string of the original request, kept in the form action
+ * @returns Complete HTML document
+ */
+export function renderPasswordPage(slug: string, error?: string, search: string = ''): string {
+  const action = `/r/${encodeURIComponent(slug)}${search}`;
+  const errorBlock = error
+    ? `<p role="alert" style="color:#dc2626">${escapeHtml(error)}</p>`
+    : '';
+  
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Password required</title>
+</head>
+<body style="font-family:system-ui,sans-serif;max-width:360px;margin:80px auto;padding:0 16px">
+  <h1 style="font-size:20px">This link is password protected</h1>
+  ${errorBlock}
+  <form method="post" action="${escapeHtml(action)}">
+    <label for="password" style="display:block;margin-bottom:6px">Password</label>
+    <input type="password" id="password" name="password" required autofocus style="width:100%;padding:8px;box-sizing:border-box">
+    <button type="submit" style="margin-top:12px;padding:8px 16px">Continue</button>
+  </form>
+</body>
+</html>`;
+}
+
+// What the preview page shows about a short link
+export interface PreviewDetails {
+  slug: string;
+  targetUrl: string | null; // null hides the destination (password-protected links)
+  title: string | null;
+  favicon: string | null; // data: URL
+  createdAt: Date;
+  continueUrl: string;
+  otherTargets: string[]; // Rule and variant targets some visitors get instead
+}
+
+/**
+ * Render the preview page that shows where a short link goes before
+ * following it
+ * @param details Link, destination metadata and the URL of the continue button
+ * @returns Complete HTML document
+ */
+export function renderPreviewPage(details: PreviewDetails): string {
+  const { slug, targetUrl, title, favicon, createdAt, continueUrl, otherTargets } = details;
+  const icon = favicon
+    ? `<img src="${escapeHtml(favicon)}" alt="" width="32" height="32" style="vertical-align:middle;margin-right:8px">`
+    : '';
+  const otherBlock = otherTargets.length > 0
+    ? `<p style="color:#6c757d;font-size:14px">Depending on your device, language or location you may be sent to one of these instead:</p>
+  <ul style="font-size:14px;word-break:break-all">${otherTargets.map(url => `<li>${escapeHtml(url)}</li>`).join('')}</ul>`
+    : '';
+  
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Preview of /${escapeHtml(slug)}</title>
+</head>
+<body style="font-family:system-ui,sans-serif;max-width:560px;margin:80px auto;padding:0 16px">
+  ${targetUrl === null
+    ? `<h1 style="font-size:20px">This short link is password protected</h1>
+  <p>Its destination is revealed once you continue and enter the password.</p>`
+    : `<h1 style="font-size:20px">This short link leads to</h1>
+  <p style="font-size:18px;font-weight:bold">${icon}${escapeHtml(title ?? new URL(targetUrl).hostname)}</p>
+  <p style="word-break:break-all"><code>${escapeHtml(targetUrl)}</code></p>`}
+  ${otherBlock}
+  <p style="color:#6c757d;font-size:14px">Created <time datetime="${createdAt.toISOString()}">${createdAt.toUTCString()}</time></p>
+  <a href="${escapeHtml(continueUrl)}" rel="noreferrer" style="display:inline-block;margin-top:12px;padding:8px 16px;background:#007bff;color:white;text-decoration:none;border-radius:4px">Continue</a>
+</body>
+</html>`;
+}
+
+// What the social card page tells link-preview crawlers
+export interface SocialCardDetails {
+  url: string; // The short URL itself, so crawlers don't re-fetch the target
+  title: string;
+  description: string | null;
+  image: string | null;
+  targetUrl: string | null; // Linked from the page; null hides the destination
+}
+
+/**
+ * Render the page link-preview crawlers get instead of a redirect, carrying
+ * Open Graph and Twitter card tags
+ * @param details Card title, description, image and URLs
+ * @returns Complete HTML document
+ */
+export function renderSocialCard(details: SocialCardDetails): string {
+  const { url, title, description, image, targetUrl } = details;
+  const meta = (attribute: 'property' | 'name', key: string, value: string | null) =>
+    value === null ? '' : `\n  <meta ${attribute}="${key}" content="${escapeHtml(value)}">`;
+    
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>${meta('name', 'description', description)}
+  <meta property="og:type" content="website">${meta('property', 'og:url', url)}${meta('property', 'og:title', title)}${meta('property', 'og:description', description)}${meta('property', 'og:image', image)}
+  <meta name="twitter:card" content="${image ? 'summary_large_image' : 'summary'}">${meta('name', 'twitter:title', title)}${meta('name', 'twitter:description', description)}${meta('name', 'twitter:image', image)}
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  ${description ? `<p>${escapeHtml(description)}</p>` : ''}
+  ${targetUrl ? `<p><a href="${escapeHtml(targetUrl)}">${escapeHtml(targetUrl)}</a></p>` : ''}
+</body>
+</html>`;
+}
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+// How long a response is kept for replays; after that the key can be reused
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+/**
+ * Fingerprint a request so retries can be told apart from a reused key
+ * @param input Validated request body
+ * @returns Hex-encoded SHA-256 digest of the body's JSON
+ */
+export function hashRequest(input: unknown): string {
+  return createHash('sha256').update(JSON.stringify(input)).digest('hex');
+}
+
+/**
+ * Look up the response stored for an idempotency key. Expired entries are
+ * deleted so the key starts over.
+ * @param workspaceId Workspace the key belongs to
+ * @param key Value of the Idempotency-Key header
+ * @param requestHash Fingerprint of the current request (see hashRequest)
+ * @param now Reference time (default: current time)
+ * @returns Stored response, or null when the request has not been seen
+ */
+export async function findStoredResponse(
+  workspaceId: string,
+  key: string,
+  requestHash: string,
+  now: Date = new Date()
+): Promise<StoredResponse | null> {
+  const stored = await prisma.idempotencyKey.findUnique({
+    where: { workspaceId_key: { workspaceId, key } }
+  });
+  
+  if (!stored) {
+    return null;
+  }
+  
+  if (stored.createdAt.getTime() <= now.getTime() - IDEMPOTENCY_KEY_TTL_MS) {
+    await prisma.idempotencyKey.deleteMany({
+      where: { workspaceId, key, createdAt: stored.createdAt }
+    });
+    return null;
+  }
+  
+  if (stored.requestHash !== requestHash) {
+    throw {
+      status: 422,
+      code: 'IDEMPOTENCY_KEY_REUSED',
+      message: 'Idempotency-Key was already used for a different request'
+    };
+  }
+  
+  return {
+    statusCode: stored.statusCode,
+    body: JSON.parse(stored.response)
+  };
+}
+
+/**
+ * Run a request at most once per idempotency key. The handler's writes and
+ * the stored response are committed together, so a retry either replays the
+ * response or runs the handler again if the first attempt failed.
+ * @param workspaceId Workspace the key belongs to
+ * @param key Value of the Idempotency-Key header
+ * @param requestHash Fingerprint of the current request (see hashRequest)
+ * @param handler Performs the request inside the transaction
+ * @returns Response to send, and whether it is a replay
+ */
+export async function withIdempotencyKey(
+  workspaceId: string,
+  key: string,
+  requestHash: string,
+  handler: (tx: Prisma.TransactionClient) => Promise<StoredResponse>
+): Promise<StoredResponse & { replayed: boolean }> {
+  const stored = await findStoredResponse(workspaceId, key, requestHash);
+  if (stored) {
+    return { ...stored, replayed: true };
+  }
+  
+  try {
+    const response = await prisma.$transaction(async (tx) => {
+      const response = await handler(tx);
+      
+      await tx.idempotencyKey.create({
+        data: {
+          workspaceId,
+          key,
+          requestHash,
+          statusCode: response.statusCode,
+          response: JSON.stringify(response.body)
+        }
+      });
+      
+      return response;
+    });
+    
+    return { ...response, replayed: false };
+    
+  } catch (dbError: any) {
+    // A concurrent request with the same key committed first - answer like it did
+    if (dbError.code === 'P2002') {
+      const winner = await findStoredResponse(workspaceId, key, requestHash);
+      if (winner) {
+        return { ...winner, replayed: true };
+      }
+    }
+    
+    throw dbError;
+  }
+}
+
+/**
+ * Delete stored responses older than the replay window
+ * @param now Reference time (default: current time)
+ * @returns Number of keys deleted
+ */
+export async function purgeExpiredIdempotencyKeys(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: {
+      createdAt: { lte: new Date(now.getTime() - IDEMPOTENCY_KEY_TTL_MS) }
+    }
+  });
+  
+  return count;
+}
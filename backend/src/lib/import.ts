@@ -0,0 +1,225 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { parseCreateLink } from './validators';
+import { parseCsv, csvToObjects } from './csv';
+import { insertLink, linkTargetUrls, LinkInput, LinkWithTags } from './links';
+import { checkDestination } from './destinations';
+import { DEFAULT_DOMAIN_ID } from './domains';
+
+// Upper bound on rows per import request
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ImportRowError {
+  code: string;
+  message: string;
+  details?: any;
+}
+
+export interface ImportRowResult {
+  row: number; // 1-based, not counting the CSV header
+  status: 'created' | 'valid' | 'error';
+  link?: LinkWithTags;
+  error?: ImportRowError;
+}
+
+export interface ImportOptions {
+  dryRun: boolean;
+  atomic: boolean;
+}
+
+/**
+ * Turn an import request body into raw rows. Accepts CSV text with a header
+ * line (targetUrl, slug, expiresAt, maxClicks, password, tags, domain) or a JSON
+ * array. CSV tags are separated by semicolons.
+ * @param body Parsed request body (string for CSV)
+ * @returns Raw, unvalidated rows
+ */
+export function readImportRows(body: unknown): unknown[] {
+  let rows: unknown[];
+
+  if (typeof body === 'string') {
+    let records: Record<string, string>[];
+    try {
+      records = csvToObjects(parseCsv(body));
+    } catch (error) {
+      throw {
+        status: 400,
+        code: 'VALIDATION_ERROR',
+        message: `Invalid CSV: ${(error as Error).message}`
+      };
+    }
+
+    // CSV cells are strings; maxClicks is the only numeric column and
+    // tags is the only list column
+    rows = records.map(({ maxClicks, tags, ...rest }) => ({
+      ...rest,
+      ...(maxClicks !== undefined && { maxClicks: Number(maxClicks) }),
+      ...(tags !== undefined && { tags: tags.split(';').map(tag => tag.trim()).filter(Boolean) })
+    }));
+  } else if (Array.isArray(body)) {
+    rows = body;
+  } else {
+    throw {
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      message: 'Import body must be a JSON array of links or CSV text with a header row'
+    };
+  }
+
+  if (rows.length === 0) {
+    throw {
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      message: 'Import contains no rows'
+    };
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw {
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      message: `Import is limited to ${MAX_IMPORT_ROWS} rows per request`
+    };
+  }
+
+  return rows;
+}
+
+/**
+ * Validate and create links in bulk, reporting a result per row.
+ * In atomic mode nothing is written unless every row is valid and all
+ * inserts succeed in one transaction.
+ * @param rows Raw rows from readImportRows
+ * @param options Dry-run and atomic flags
+ * @param workspaceId Workspace that owns the imported links
+ * @param shortenerHosts Hosts short links are served on, to reject redirect loops
+ * @param onCreated Runs for each created link in the transaction that created it
+ *   (e.g. to queue webhook events)
+ * @returns Per-row results in input order
+ */
+export async function importLinks(
+  rows: unknown[],
+  options: ImportOptions,
+  workspaceId: string,
+  shortenerHosts: string[] = [],
+  onCreated: (link: LinkWithTags, db: Prisma.TransactionClient) => Promise<unknown> = async () => {}
+): Promise<ImportRowResult[]> {
+  const results: ImportRowResult[] = [];
+  const inputs = new Map<number, LinkInput>();
+
+  // Validate every row with the same rules as POST /api/v1/links
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    try {
+      const input = parseCreateLink(raw);
+      linkTargetUrls(input).forEach(url => checkDestination(url, shortenerHosts));
+      inputs.set(row, input);
+      results.push({ row, status: 'valid' });
+    } catch (error: any) {
+      if (error?.code !== 'VALIDATION_ERROR' && error?.code !== 'DESTINATION_BLOCKED') {
+        throw error;
+      }
+      results.push({
+        row,
+        status: 'error',
+        error: { code: error.code, message: error.message, details: error.details }
+      });
+    }
+  });
+
+  // Branded domains must belong to the workspace
+  const hosts = [...inputs.values()]
+    .map(input => input.domain)
+    .filter((host): host is string => !!host);
+  const domains = await prisma.domain.findMany({
+    where: { host: { in: hosts }, workspaceId },
+    select: { id: true, host: true }
+  });
+  const domainIds = new Map(domains.map(domain => [domain.host, domain.id]));
+  const domainIdOf = (input: LinkInput) => input.domain ? domainIds.get(input.domain) : DEFAULT_DOMAIN_ID;
+
+  for (const result of results) {
+    const input = inputs.get(result.row);
+    if (input && !domainIdOf(input)) {
+      inputs.delete(result.row);
+      result.status = 'error';
+      result.error = { code: 'NOT_FOUND', message: 'Domain not found' };
+    }
+  }
+
+  // Custom slugs must be unique per domain within the batch and not exist yet
+  const requested = [...inputs.values()].filter(input => input.slug);
+  const existing = await prisma.link.findMany({
+    where: {
+      slug: { in: requested.map(input => input.slug!) },
+      domainId: { in: requested.map(input => domainIdOf(input)!) }
+    },
+    select: { domainId: true, slug: true }
+  });
+  const takenSlugs = new Set(existing.map(link => `${link.domainId}/${link.slug}`));
+
+  for (const result of results) {
+    const input = inputs.get(result.row);
+    if (!input?.slug) {
+      continue;
+    }
+
+    const key = `${domainIdOf(input)}/${input.slug}`;
+    if (takenSlugs.has(key)) {
+      inputs.delete(result.row);
+      result.status = 'error';
+      result.error = { code: 'SLUG_TAKEN', message: 'Slug already exists' };
+    }
+    takenSlugs.add(key);
+  }
+
+  // Dry runs stop here; atomic imports stop if anything failed
+  const hasErrors = results.some(result => result.status === 'error');
+  if (options.dryRun || (options.atomic && hasErrors)) {
+    return results;
+  }
+
+  if (options.atomic) {
+    // Any failure (e.g. a slug taken concurrently) rolls back the whole batch
+    const created = await prisma.$transaction(async (tx) => {
+      const links: LinkWithTags[] = [];
+      for (const result of results) {
+        const link = await insertLink(inputs.get(result.row)!, workspaceId, tx);
+        await onCreated(link, tx);
+        links.push(link);
+      }
+      return links;
+    }, { timeout: 60000 });
+
+    results.forEach((result, index) => {
+      result.status = 'created';
+      result.link = created[index];
+    });
+    return results;
+  }
+
+  // Best effort: create each valid row on its own
+  for (const result of results) {
+    const input = inputs.get(result.row);
+    if (!input) {
+      continue;
+    }
+
+    try {
+      result.link = await prisma.$transaction(async (tx) => {
+        const link = await insertLink(input, workspaceId, tx);
+        await onCreated(link, tx);
+        return link;
+      });
+      result.status = 'created';
+    } catch (error: any) {
+      if (!error?.code || error instanceof Error) {
+        throw error;
+      }
+      result.status = 'error';
+      result.error = { code: error.code, message: error.message };
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,120 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKey, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import type { Role } from './workspaces';
+
+// Scopes an API key can be granted
+export const API_KEY_SCOPES = ['links:read', 'links:write', 'analytics:read', 'keys:manage', 'workspace:manage'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Marks our keys in logs and secret scanners
+const KEY_PREFIX = 'lsk_';
+
+// Characters of the key stored in clear for listings (KEY_PREFIX + 8)
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// Skip the lastUsedAt write when the key was used more recently than this
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface AuthenticatedKey {
+  id: string;
+  name: string;
+  userId: string;
+  workspaceId: string;
+  role: Role; // The user's current role in the key's workspace
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Hash an API key for storage and lookup. Keys are 192-bit random values,
+ * so a fast unsalted hash is enough (unlike user-chosen passwords).
+ * @param key Full API key as sent by the client
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Split a stored comma-separated scope list
+ * @param scopes Value of ApiKey.scopes
+ * @returns Scope names
+ */
+export function parseScopes(scopes: string): ApiKeyScope[] {
+  return scopes.split(',').filter(Boolean) as ApiKeyScope[];
+}
+
+/**
+ * Create an API key. Only the hash is stored, so the returned key must be
+ * shown to the caller now; it cannot be recovered later.
+ * @param name Human-readable label
+ * @param scopes Scopes granted to the key
+ * @param member User the key acts as and the workspace it is limited to
+ * @param db Prisma client or transaction client (default: shared client)
+ * @returns Stored key record and the full key
+ */
+export async function createApiKey(
+  name: string,
+  scopes: ApiKeyScope[],
+  member: { userId: string; workspaceId: string },
+  db: Prisma.TransactionClient = prisma
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+  
+  const apiKey = await db.apiKey.create({
+    data: {
+      name,
+      userId: member.userId,
+      workspaceId: member.workspaceId,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: [...new Set(scopes)].join(',')
+    }
+  });
+  
+  return { apiKey, key };
+}
+
+/**
+ * Resolve a presented key to an active (non-revoked) API key and note its use.
+ * Keys of users who are no longer members of the key's workspace are rejected.
+ * @param key Full API key from the Authorization header
+ * @param now Reference time (default: current time)
+ * @returns Key identity, role and scopes, or null if unknown or revoked
+ */
+export async function authenticateApiKey(key: string, now: Date = new Date()): Promise<AuthenticatedKey | null> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) }
+  });
+  
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+  
+  const membership = await prisma.membership.findUnique({
+    where: {
+      userId_workspaceId: { userId: apiKey.userId, workspaceId: apiKey.workspaceId }
+    }
+  });
+  
+  if (!membership) {
+    return null;
+  }
+  
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now }
+    });
+  }
+  
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    userId: apiKey.userId,
+    workspaceId: apiKey.workspaceId,
+    role: membership.role as Role,
+    scopes: parseScopes(apiKey.scopes)
+  };
+}
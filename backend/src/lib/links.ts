@@ -0,0 +1,138 @@
+import type { Prisma } from '@prisma/client';
+import type { z } from 'zod';
+import { prisma } from '../db';
+import { Env } from '../env';
+import { createLinkSchema } from './validators';
+import { generateSlug, recordSlugOutcome, SlugStrategy } from './slug';
+import { hashPassword } from './password';
+import { ensureTags } from './tags';
+import { findDomainIdOrThrow } from './domains';
+import { utmColumns } from './targets';
+import { ogColumns } from './opengraph';
+import { ruleRows } from './rules';
+import { variantWrites } from './variants';
+
+export type LinkInput = z.infer<typeof createLinkSchema>;
+
+// Relations loaded with a link wherever the API serializes it
+export const LINK_INCLUDE = {
+  tags: true,
+  domain: true,
+  rules: {
+    orderBy: { position: 'asc' }
+  },
+  variants: {
+    orderBy: { position: 'asc' }
+  },
+  health: true
+} as const;
+
+// Link row with its tags, domain, rules, variants and health, as returned by insertLink
+export type LinkWithTags = Prisma.LinkGetPayload<{ include: typeof LINK_INCLUDE }>;
+
+// Safety limit on generated slug attempts; every retry makes a longer slug,
+// so running out means something other than slug space is wrong
+const MAX_SLUG_ATTEMPTS = 10;
+
+/**
+ * List every URL a link can redirect to: its target and the targets of its
+ * rules and variants
+ * @param input Validated link fields
+ * @returns Target URLs to check with checkDestination
+ */
+export function linkTargetUrls(input: Pick<Partial<LinkInput>, 'targetUrl' | 'rules' | 'variants'>): string[] {
+  return [
+    ...(input.targetUrl ? [input.targetUrl] : []),
+    ...(input.rules ?? []).map(rule => rule.targetUrl),
+    ...(input.variants ?? []).map(variant => variant.targetUrl)
+  ];
+}
+
+/**
+ * Insert a validated link, generating a slug with the requested strategy
+ * (default: SLUG_STRATEGY) when none was provided. Slugs are unique per
+ * domain. Generated slugs are retried with a longer slug on collision;
+ * a taken user-provided slug throws SLUG_TAKEN (409).
+ * @param input Validated link fields (see createLinkSchema)
+ * @param workspaceId Workspace that owns the new link
+ * @param db Prisma client or transaction client (default: shared client)
+ * @returns Created link with its tags
+ */
+export async function insertLink(input: LinkInput, workspaceId: string, db: Prisma.TransactionClient = prisma): Promise<LinkWithTags> {
+  const { targetUrl, slug: userSlug, expiresAt, maxClicks, password, tags = [], domain, slugStrategy, redirectType, forwardQuery, utm, og, rules = [], variants = [], stickyVariants, forcePreview } = input;
+  const strategy = slugStrategy ?? Env.SLUG_STRATEGY as SlugStrategy;
+  
+  // Branded domains must belong to the workspace (404 otherwise)
+  const domainId = await findDomainIdOrThrow(domain, workspaceId, db);
+  
+  // Tags are shared between links, so create any that don't exist yet
+  const tagIds = await ensureTags(tags, db);
+  
+  // Attempt to create the link with retry logic for generated slugs
+  for (let attempt = 0; ; attempt++) {
+    // Use provided slug or generate a new one
+    const slug = userSlug || await generateSlug({ strategy, targetUrl, attempt }, db);
+    
+    try {
+      const link = await db.link.create({
+        data: {
+          slug,
+          targetUrl,
+          workspaceId,
+          domainId,
+          expiresAt: expiresAt ?? null,
+          maxClicks: maxClicks ?? null,
+          passwordHash: password ? hashPassword(password) : null,
+          redirectType: redirectType ?? 302,
+          forwardQuery: forwardQuery ?? false,
+          stickyVariants: stickyVariants ?? false,
+          forcePreview: forcePreview ?? false,
+          ...utmColumns(utm ?? null),
+          ...ogColumns(og ?? null),
+          tags: { connect: tagIds },
+          rules: { create: ruleRows(rules) },
+          variants: { create: variantWrites(variants).create }
+        },
+        include: LINK_INCLUDE
+      });
+      
+      if (!userSlug) {
+        recordSlugOutcome(strategy, false);
+      }
+      return link;
+      
+    } catch (dbError: any) {
+      // Anything but a slug unique constraint violation (P2002) is unexpected
+      if (dbError.code !== 'P2002' || !dbError.meta?.target?.includes('slug')) {
+        throw dbError;
+      }
+      
+      // User provided slug is taken
+      if (userSlug) {
+        throw {
+          status: 409,
+          code: 'SLUG_TAKEN',
+          message: 'Slug already exists'
+        };
+      }
+      
+      // Generated slug collision - retry with a longer slug. Shortening a URL
+      // again lands on its own hash slug first, which says nothing about how
+      // crowded the slug space is.
+      const repeatedHash = strategy === 'hash' && attempt === 0 && await db.link.findFirst({
+        where: { domainId, slug, targetUrl },
+        select: { id: true }
+      });
+      if (!repeatedHash) {
+        recordSlugOutcome(strategy, true);
+      }
+      if (attempt + 1 >= MAX_SLUG_ATTEMPTS) {
+        throw {
+          status: 500,
+          code: 'INTERNAL',
+          message: 'Unable to generate unique slug after multiple attempts'
+        };
+      }
+    }
+  }
+}
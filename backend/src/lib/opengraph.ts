@@ -0,0 +1,78 @@
+import type { Link } from '@prisma/client';
+
+// Open Graph fields of the API mapped to their Link columns
+export const OG_FIELDS = {
+  title: 'ogTitle',
+  description: 'ogDescription',
+  image: 'ogImage'
+} as const;
+
+export type OgField = keyof typeof OG_FIELDS;
+
+export type OpenGraph = Partial<Record<OgField, string>>;
+
+type OgColumns = Pick<Link, typeof OG_FIELDS[OgField]>;
+
+// User agents of the crawlers chat apps and social networks send to unfurl a
+// pasted link. Search engine bots are left out on purpose: they should see
+// the redirect itself.
+const CRAWLER_PATTERN = new RegExp([
+  'facebookexternalhit',
+  'Facebot',
+  'Twitterbot',
+  'Slackbot',
+  'Slack-ImgProxy',
+  'Discordbot',
+  'TelegramBot',
+  'WhatsApp',
+  'LinkedInBot',
+  'SkypeUriPreview',
+  'Pinterestbot',
+  'redditbot',
+  'Mastodon',
+  'Cardyb',
+  'Embedly',
+  'Iframely',
+  'vkShare'
+].join('|'), 'i');
+
+/**
+ * Check whether a request comes from a link-preview crawler
+ * @param userAgent User-Agent header (may be empty)
+ * @returns True for known chat and social network unfurlers
+ */
+export function isCrawler(userAgent: string): boolean {
+  return CRAWLER_PATTERN.test(userAgent);
+}
+
+/**
+ * Map API Open Graph fields to Link columns. Fields that are left out are
+ * cleared, so the given set replaces the link's current one.
+ * @param og Open Graph fields, or null to clear them all
+ * @returns Column values for a Prisma create or update
+ */
+export function ogColumns(og: OpenGraph | null): OgColumns {
+  return {
+    ogTitle: og?.title ?? null,
+    ogDescription: og?.description ?? null,
+    ogImage: og?.image ?? null
+  };
+}
+
+/**
+ * Read a link's Open Graph columns back as API fields
+ * @param link Link row
+ * @returns Open Graph fields that are set, or null when none are
+ */
+export function linkOpenGraph(link: OgColumns): OpenGraph | null {
+  const og: OpenGraph = {};
+  
+  for (const [field, column] of Object.entries(OG_FIELDS)) {
+    const value = link[column];
+    if (value !== null) {
+      og[field as OgField] = value;
+    }
+  }
+  
+  return Object.keys(og).length > 0 ? og : null;
+}
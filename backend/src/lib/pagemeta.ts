@@ -0,0 +1,135 @@
+import { fetchResource, FetchOptions } from './fetcher';
+
+// Title and icon of a destination page, shown on link previews
+export interface PageMeta {
+  title: string | null;
+  favicon: string | null; // data: URL, so visitors' browsers never contact the destination
+}
+
+// Fetch limits: the whole request (redirects included) and the bytes read
+const FETCH_TIMEOUT_MS = 3000;
+const MAX_PAGE_BYTES = 256 * 1024;
+const MAX_ICON_BYTES = 32 * 1024;
+const MAX_REDIRECTS = 3;
+
+// Page metadata is cached per target URL, failures included
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+const cache = new Map<string, { expiresAt: number; meta: Promise<PageMeta> }>();
+
+const FETCH_OPTIONS: Omit<FetchOptions, 'maxBytes'> = {
+  maxRedirects: MAX_REDIRECTS,
+  timeoutMs: FETCH_TIMEOUT_MS,
+  userAgent: 'Mozilla/5.0 (compatible; LinkPreview/1.0)',
+  accept: 'text/html,image/*;q=0.9,*/*;q=0.5'
+};
+
+// Helper function to decode the HTML entities that show up in titles and URLs
+function decodeEntities(text: string) {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Helper function to read the attributes of an HTML tag
+function tagAttributes(tag: string) {
+  const attributes: Record<string, string> = {};
+  
+  for (const match of tag.matchAll(/([a-z:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? match[5]);
+  }
+  
+  return attributes;
+}
+
+/**
+ * Read the title and icon URL from an HTML page. Falls back to og:title and
+ * /favicon.ico when the page does not declare them.
+ * @param html Page HTML (the head is enough)
+ * @param pageUrl URL the page was served from, for resolving relative links
+ * @returns Title (whitespace collapsed, at most 200 characters) and absolute icon URL
+ */
+export function parsePageMeta(html: string, pageUrl: string): { title: string | null; iconUrl: string } {
+  let title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  let iconHref: string | undefined;
+  
+  for (const [tag] of html.matchAll(/<(?:meta|link)\b[^>]*>/gi)) {
+    const attributes = tagAttributes(tag);
+    
+    if (!title && attributes.property === 'og:title' && attributes.content) {
+      title = attributes.content;
+    }
+    
+    const rel = attributes.rel?.toLowerCase().split(/\s+/) ?? [];
+    if (!iconHref && rel.includes('icon') && attributes.href) {
+      iconHref = attributes.href;
+    }
+  }
+  
+  const cleanTitle = title ? decodeEntities(title).replace(/\s+/g, ' ').trim().slice(0, 200) : '';
+  
+  let iconUrl: string;
+  try {
+    iconUrl = new URL(iconHref ?? '/favicon.ico', pageUrl).toString();
+  } catch {
+    iconUrl = new URL('/favicon.ico', pageUrl).toString();
+  }
+  
+  return { title: cleanTitle || null, iconUrl };
+}
+
+// Helper function to fetch a destination's title and favicon. Any failure
+// just leaves the field empty.
+async function loadPageMeta(targetUrl: string): Promise<PageMeta> {
+  const meta: PageMeta = { title: null, favicon: null };
+  
+  try {
+    const page = await fetchResource(new URL(targetUrl), { ...FETCH_OPTIONS, maxBytes: MAX_PAGE_BYTES });
+    if (page.status !== 200 || !page.contentType.includes('html')) {
+      return meta;
+    }
+    
+    const { title, iconUrl } = parsePageMeta(page.body.toString('utf8'), page.url.toString());
+    meta.title = title;
+    
+    const icon = await fetchResource(new URL(iconUrl), { ...FETCH_OPTIONS, maxBytes: MAX_ICON_BYTES + 1 });
+    const iconType = icon.contentType.split(';')[0].trim();
+    if (icon.status === 200 && iconType.startsWith('image/') && icon.body.length <= MAX_ICON_BYTES) {
+      meta.favicon = `data:${iconType};base64,${icon.body.toString('base64')}`;
+    }
+  } catch {
+    // Unreachable, slow or private destinations get a preview without metadata
+  }
+  
+  return meta;
+}
+
+/**
+ * Get the title and favicon of a destination page for link previews.
+ * Results are cached for an hour; private destinations are never fetched.
+ * @param targetUrl Destination URL
+ * @returns Page metadata (fields are null when unavailable); never rejects
+ */
+export function getPageMeta(targetUrl: string): Promise<PageMeta> {
+  const now = Date.now();
+  const cached = cache.get(targetUrl);
+  if (cached && cached.expiresAt > now) {
+    return cached.meta;
+  }
+  
+  // Drop the oldest entry to keep the cache bounded
+  cache.delete(targetUrl);
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  
+  const meta = loadPageMeta(targetUrl);
+  cache.set(targetUrl, { expiresAt: now + CACHE_TTL_MS, meta });
+  return meta;
+}
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+
+// scrypt parameters (N=16384, r=8, p=1 are Node's defaults)
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+/**
+ * Hash a password with scrypt and a random salt
+ * @param password Plain text password
+ * @returns Encoded hash in the form "scrypt$<salt hex>$<hash hex>"
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = crypto.scryptSync(password, salt, KEY_LENGTH);
+  
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a hash produced by hashPassword
+ * @param password Plain text password to check
+ * @param encoded Stored hash
+ * @returns True if the password matches
+ */
+export function verifyPassword(password: string, encoded: string): boolean {
+  const [scheme, saltHex, hashHex] = encoded.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+  
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  
+  // Constant-time comparison to avoid leaking how much of the hash matched
+  return crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,195 @@
+import zlib from 'zlib';
+
+// Image as 8-bit RGBA pixels, row by row
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+// Largest image decodePng accepts, to bound memory on untrusted input
+const MAX_DECODED_PIXELS = 1024 * 1024;
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Channels per pixel of each PNG color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// Helper function to compute the CRC-32 of a chunk's type and data
+function crc32(buffer: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Helper function to build a PNG chunk: length, type, data and CRC
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Encode an RGBA image as a PNG file
+ * @param image Image to encode
+ * @returns PNG file contents
+ */
+export function encodePng(image: RgbaImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Color type: RGBA
+  
+  // Every row starts with filter type 0 (none); deflate does the compressing
+  const rowLength = image.width * 4;
+  const raw = Buffer.alloc((rowLength + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    image.data.copy(raw, y * (rowLength + 1) + 1, y * rowLength, (y + 1) * rowLength);
+  }
+  
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// Helper function to predict a byte from its neighbours (filter type 4)
+function paeth(left: number, up: number, upLeft: number) {
+  const estimate = left + up - upLeft;
+  const distLeft = Math.abs(estimate - left);
+  const distUp = Math.abs(estimate - up);
+  const distUpLeft = Math.abs(estimate - upLeft);
+  if (distLeft <= distUp && distLeft <= distUpLeft) {
+    return left;
+  }
+  return distUp <= distUpLeft ? up : upLeft;
+}
+
+/**
+ * Decode a PNG file into RGBA pixels. Supports non-interlaced images of every
+ * color type at bit depths up to 8 (palette transparency included).
+ * @param file PNG file contents
+ * @returns Decoded image
+ * @throws Error if the file is not a PNG this decoder supports
+ */
+export function decodePng(file: Buffer): RgbaImage {
+  if (file.length < 8 || !file.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+  
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer = Buffer.alloc(0);
+  let paletteAlpha: Buffer = Buffer.alloc(0);
+  const compressed: Buffer[] = [];
+  
+  for (let offset = 8; offset + 8 <= file.length;) {
+    const length = file.readUInt32BE(offset);
+    const type = file.toString('ascii', offset + 4, offset + 8);
+    const data = file.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+    
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) {
+        throw new Error('Interlaced PNGs are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      paletteAlpha = data;
+    } else if (type === 'IDAT') {
+      compressed.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+  
+  const channels = CHANNELS[colorType];
+  if (!channels || bitDepth > 8 || (channels > 1 && bitDepth !== 8)) {
+    throw new Error('Only PNGs with a bit depth of up to 8 are supported');
+  }
+  if (width === 0 || height === 0 || width * height > MAX_DECODED_PIXELS) {
+    throw new Error('PNG dimensions are out of range');
+  }
+  
+  const rowLength = Math.ceil(width * channels * bitDepth / 8);
+  const bytesPerPixel = Math.max(1, channels * bitDepth / 8);
+  const raw = zlib.inflateSync(Buffer.concat(compressed), { maxOutputLength: (rowLength + 1) * height });
+  if (raw.length < (rowLength + 1) * height) {
+    throw new Error('PNG image data is truncated');
+  }
+  
+  // Undo the per-row filters
+  const rows = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (rowLength + 1)];
+    for (let i = 0; i < rowLength; i++) {
+      const value = raw[y * (rowLength + 1) + 1 + i];
+      const left = i >= bytesPerPixel ? rows[y * rowLength + i - bytesPerPixel] : 0;
+      const up = y > 0 ? rows[(y - 1) * rowLength + i] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? rows[(y - 1) * rowLength + i - bytesPerPixel] : 0;
+      const predicted = filter === 1 ? left
+        : filter === 2 ? up
+        : filter === 3 ? (left + up) >> 1
+        : filter === 4 ? paeth(left, up, upLeft)
+        : 0;
+      rows[y * rowLength + i] = (value + predicted) & 0xff;
+    }
+  }
+  
+  // Expand samples to RGBA
+  const maxSample = (1 << bitDepth) - 1;
+  const sample = (y: number, index: number) => {
+    if (bitDepth === 8) {
+      return rows[y * rowLength + index];
+    }
+    const bit = index * bitDepth;
+    return (rows[y * rowLength + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const first = sample(y, x * channels);
+      
+      if (colorType === 3) {
+        palette.copy(data, out, first * 3, first * 3 + 3);
+        data[out + 3] = first < paletteAlpha.length ? paletteAlpha[first] : 255;
+      } else if (channels <= 2) {
+        const gray = Math.round(first * 255 / maxSample);
+        data.fill(gray, out, out + 3);
+        data[out + 3] = channels === 2 ? sample(y, x * channels + 1) : 255;
+      } else {
+        data[out] = first;
+        data[out + 1] = sample(y, x * channels + 1);
+        data[out + 2] = sample(y, x * channels + 2);
+        data[out + 3] = channels === 4 ? sample(y, x * channels + 3) : 255;
+      }
+    }
+  }
+  
+  return { width, height, data };
+}
@@ -0,0 +1,374 @@
+// Error correction levels, from L (recovers ~7% of the symbol) to H (~30%)
+export const QR_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+
+export type QrLevel = typeof QR_LEVELS[number];
+
+// QR code symbol of size × size modules (true = dark), without the quiet zone
+export interface QrCode {
+  size: number;
+  modules: boolean[][];
+}
+
+// Error correction codewords per block and number of blocks, by level and
+// version (index 0 is unused), from the QR code specification (ISO/IEC 18004)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+const ERROR_CORRECTION_BLOCKS: Record<QrLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+// Level bits of the format information
+const LEVEL_FORMAT_BITS: Record<QrLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Data mask conditions; a module is inverted where its mask returns true
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+// Helper function to count the modules of a version that hold data and
+// error correction (everything but function patterns and format/version info)
+function rawDataModules(version: number) {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      modules -= 36;
+    }
+  }
+  return modules;
+}
+
+// Helper function to count the data codewords of a version and level
+function dataCodewords(version: number, level: QrLevel) {
+  return Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+}
+
+// Helper function to list the row/column centers of alignment patterns
+function alignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+// Helper function to multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number) {
+  let product = 0;
+  for (let bit = 7; bit >= 0; bit--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> bit) & 1) * x;
+  }
+  return product;
+}
+
+// Helper function to compute the Reed-Solomon error correction codewords of a block
+function reedSolomon(data: number[], degree: number): number[] {
+  // Generator polynomial (x - 2^0)(x - 2^1)...(x - 2^(degree-1)), leading term dropped
+  const generator = new Array<number>(degree).fill(0);
+  generator[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      generator[j] = gfMultiply(generator[j], root);
+      if (j + 1 < degree) {
+        generator[j] ^= generator[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  
+  // Remainder of the polynomial division
+  const remainder = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    generator.forEach((coefficient, i) => {
+      remainder[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return remainder;
+}
+
+// Helper function to encode text in byte mode, padded to the data capacity
+function encodeData(bytes: Uint8Array, version: number, level: QrLevel): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let bit = length - 1; bit >= 0; bit--) {
+      bits.push((value >>> bit) & 1);
+    }
+  };
+  
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+  
+  // Terminator, then zero bits up to a byte boundary
+  const capacity = dataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+  
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  
+  // Alternating pad bytes fill the remaining capacity
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+// Helper function to split data into blocks, add error correction to each and
+// interleave them into the final codeword sequence
+function addErrorCorrection(data: number[], version: number, level: QrLevel): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - rawCodewords % blockCount;
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  
+  // Short blocks get a placeholder byte so all blocks line up when interleaving
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomon(blockData, eccLength);
+    if (i < shortBlocks) {
+      blockData.push(0);
+    }
+    blocks.push([...blockData, ...ecc]);
+  }
+  
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+// Helper function to draw the format information (level and mask) in both copies
+function drawFormatBits(modules: boolean[][], level: QrLevel, mask: number) {
+  const size = modules.length;
+  const data = (LEVEL_FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+  
+  // First copy, around the top left finder
+  for (let i = 0; i <= 5; i++) {
+    modules[i][8] = bit(i);
+  }
+  modules[7][8] = bit(6);
+  modules[8][8] = bit(7);
+  modules[8][7] = bit(8);
+  for (let i = 9; i < 15; i++) {
+    modules[8][14 - i] = bit(i);
+  }
+  
+  // Second copy, split between the top right and bottom left finders
+  for (let i = 0; i < 8; i++) {
+    modules[8][size - 1 - i] = bit(i);
+  }
+  for (let i = 8; i < 15; i++) {
+    modules[size - 15 + i][8] = bit(i);
+  }
+  modules[size - 8][8] = true;
+}
+
+// Helper function to score a masked symbol; lower scores scan more reliably
+function maskPenalty(modules: boolean[][]) {
+  const size = modules.length;
+  let penalty = 0;
+  
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map(row => row[x]))
+  ];
+  for (const line of lines) {
+    // Runs of five or more modules of the same color
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) {
+          penalty += run - 2;
+        }
+        run = 1;
+      }
+    }
+    
+    // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+    const light = (i: number) => i < 0 || i >= size || !line[i];
+    for (let i = 0; i + 7 <= size; i++) {
+      const finderLike = line[i] && light(i + 1) && line[i + 2] && line[i + 3] && line[i + 4] && light(i + 5) && line[i + 6];
+      if (finderLike && ([1, 2, 3, 4].every(j => light(i - j)) || [7, 8, 9, 10].every(j => light(i + j)))) {
+        penalty += 40;
+      }
+    }
+  }
+  
+  // 2×2 blocks of the same color
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+  
+  // Imbalance between dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  penalty += Math.floor(Math.abs(dark * 100 / (size * size) - 50) / 5) * 10;
+  
+  return penalty;
+}
+
+/**
+ * Encode text as a QR code, using the smallest version that fits and the
+ * data mask with the lowest penalty score
+ * @param text Text to encode (UTF-8, byte mode)
+ * @param level Error correction level
+ * @returns QR code symbol
+ */
+export function encodeQr(text: string, level: QrLevel): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  
+  let version = 1;
+  while (4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewords(version, level) * 8) {
+    if (++version > 40) {
+      throw new Error('Text is too long for a QR code');
+    }
+  }
+  
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+  
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  
+  // Finder patterns with their separators, in three corners
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (cx + dx >= 0 && cx + dx < size && cy + dy >= 0 && cy + dy < size) {
+          setFunction(cx + dx, cy + dy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+  
+  // Alignment patterns, except where they would overlap a finder
+  const alignments = alignmentPositions(version);
+  const last = alignments.length - 1;
+  alignments.forEach((cy, i) => {
+    alignments.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+  
+  // Reserve the format information areas; the bits are drawn per mask below
+  drawFormatBits(modules, level, 0);
+  for (let i = 0; i < 9; i++) {
+    isFunction[8][i] = isFunction[i][8] = true;
+  }
+  for (let i = 0; i < 8; i++) {
+    isFunction[8][size - 1 - i] = isFunction[size - 1 - i][8] = true;
+  }
+  
+  // Version information, for version 7 and up
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      setFunction(size - 11 + i % 3, Math.floor(i / 3), dark);
+      setFunction(Math.floor(i / 3), size - 11 + i % 3, dark);
+    }
+  }
+  
+  // Codewords fill two-module columns from the right, zigzagging up and down
+  const codewords = addErrorCorrection(encodeData(bytes, version, level), version, level);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      // Skip the vertical timing pattern
+      right = 5;
+    }
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const y = upward ? size - 1 - vertical : vertical;
+      for (const x of [right, right - 1]) {
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+          bitIndex++;
+        }
+      }
+    }
+  }
+  
+  // Try every data mask and keep the one that scans best
+  let best: { modules: boolean[][]; penalty: number } | null = null;
+  MASKS.forEach((mask, maskIndex) => {
+    const masked = modules.map((row, y) => row.map((dark, x) => (!isFunction[y][x] && mask(x, y) ? !dark : dark)));
+    drawFormatBits(masked, level, maskIndex);
+    const penalty = maskPenalty(masked);
+    if (!best || penalty < best.penalty) {
+      best = { modules: masked, penalty };
+    }
+  });
+  
+  return { size, modules: best!.modules };
+}
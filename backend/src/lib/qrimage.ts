@@ -0,0 +1,166 @@
+import type { QrCode } from './qr';
+import { encodePng, decodePng } from './png';
+
+// Image formats QR codes can be rendered in
+export const QR_FORMATS = ['svg', 'png'] as const;
+
+// Image size limits in pixels, and the quiet zone limit in modules
+export const QR_MIN_SIZE = 64;
+export const QR_MAX_SIZE = 2048;
+export const QR_MAX_MARGIN = 16;
+
+// Largest center logo accepted, before base64 encoding
+export const QR_MAX_LOGO_BYTES = 8 * 1024;
+
+// Share of the symbol's width the center logo covers. Its area (about 4%) is
+// well within what error correction levels M and up can recover.
+const LOGO_WIDTH_RATIO = 0.2;
+
+export type QrFormat = typeof QR_FORMATS[number];
+
+// Center logo image
+export interface QrLogo {
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface QrImageOptions {
+  size: number; // Image width and height in pixels
+  margin: number; // Quiet zone around the symbol, in modules
+  foreground: string; // #rrggbb
+  background: string; // #rrggbb
+  logo?: QrLogo | null;
+}
+
+// Helper function to find the centered square of modules behind the logo.
+// The span keeps the same parity as the symbol so the square stays centered.
+function logoArea(code: QrCode) {
+  let span = Math.round(code.size * LOGO_WIDTH_RATIO);
+  if ((code.size - span) % 2 !== 0) {
+    span++;
+  }
+  return { start: (code.size - span) / 2, span };
+}
+
+// Helper function to get the modules to draw, with the logo area cleared
+function visibleModules(code: QrCode, options: QrImageOptions) {
+  if (!options.logo) {
+    return code.modules;
+  }
+  
+  const { start, span } = logoArea(code);
+  return code.modules.map((row, y) => row.map((dark, x) =>
+    dark && !(x >= start && x < start + span && y >= start && y < start + span)
+  ));
+}
+
+/**
+ * Render a QR code as an SVG document. Dark modules are drawn as one path,
+ * one subpath per horizontal run.
+ * @param code QR code symbol
+ * @param options Size, quiet zone, colors and optional logo
+ * @returns SVG markup
+ */
+export function renderQrSvg(code: QrCode, options: QrImageOptions): string {
+  const { size, margin, foreground, background, logo } = options;
+  const total = code.size + margin * 2;
+  
+  let path = '';
+  visibleModules(code, options).forEach((row, y) => {
+    for (let x = 0; x < code.size; x++) {
+      if (!row[x]) {
+        continue;
+      }
+      const runStart = x;
+      while (x + 1 < code.size && row[x + 1]) {
+        x++;
+      }
+      const length = x - runStart + 1;
+      path += `M${runStart + margin} ${y + margin}h${length}v1h-${length}z`;
+    }
+  });
+  
+  let logoImage = '';
+  if (logo) {
+    // Inset by half a module so the logo doesn't touch the surrounding modules
+    const { start, span } = logoArea(code);
+    logoImage = `<image href="data:${logo.mimeType};base64,${logo.data.toString('base64')}" x="${start + margin + 0.5}" y="${start + margin + 0.5}" width="${span - 1}" height="${span - 1}" preserveAspectRatio="xMidYMid meet"/>`;
+  }
+  
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">` +
+    `<rect width="${total}" height="${total}" fill="${background}"/>` +
+    `<path fill="${foreground}" d="${path}"/>` +
+    logoImage +
+    '</svg>';
+}
+
+// Helper function to turn #rrggbb into its red, green and blue values
+function hexToRgb(color: string) {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Render a QR code as a PNG image. Modules are scaled to the requested size
+ * (nearest neighbour); PNG logos are scaled to fit the center and blended
+ * with their transparency.
+ * @param code QR code symbol
+ * @param options Size, quiet zone, colors and optional logo (PNG only)
+ * @returns PNG file contents
+ * @throws Error if the logo is not a PNG the decoder supports
+ */
+export function renderQrPng(code: QrCode, options: QrImageOptions): Buffer {
+  const { size, margin, logo } = options;
+  const total = code.size + margin * 2;
+  const modules = visibleModules(code, options);
+  const foreground = hexToRgb(options.foreground);
+  const background = hexToRgb(options.background);
+  
+  // Map each pixel row/column to the module it falls in (negative or past the
+  // symbol = quiet zone)
+  const moduleAt = Array.from({ length: size }, (_, pixel) => Math.floor(pixel * total / size) - margin);
+  
+  const data = Buffer.alloc(size * size * 4);
+  for (let py = 0; py < size; py++) {
+    const my = moduleAt[py];
+    for (let px = 0; px < size; px++) {
+      const mx = moduleAt[px];
+      const dark = my >= 0 && my < code.size && mx >= 0 && mx < code.size && modules[my][mx];
+      const color = dark ? foreground : background;
+      const offset = (py * size + px) * 4;
+      data[offset] = color[0];
+      data[offset + 1] = color[1];
+      data[offset + 2] = color[2];
+      data[offset + 3] = 255;
+    }
+  }
+  
+  if (logo) {
+    const image = decodePng(logo.data);
+    const { start, span } = logoArea(code);
+    
+    // Fit the logo in the cleared area, inset by half a module, keeping its aspect ratio
+    const boxStart = (start + margin + 0.5) * size / total;
+    const boxSize = (span - 1) * size / total;
+    const scale = Math.min(boxSize / image.width, boxSize / image.height);
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+    const left = Math.round(boxStart + (boxSize - width) / 2);
+    const top = Math.round(boxStart + (boxSize - height) / 2);
+    
+    for (let y = 0; y < height; y++) {
+      const sy = Math.min(image.height - 1, Math.floor(y / scale));
+      for (let x = 0; x < width; x++) {
+        const sx = Math.min(image.width - 1, Math.floor(x / scale));
+        const source = (sy * image.width + sx) * 4;
+        const target = ((top + y) * size + left + x) * 4;
+        const alpha = image.data[source + 3] / 255;
+        for (let channel = 0; channel < 3; channel++) {
+          data[target + channel] = Math.round(image.data[source + channel] * alpha + data[target + channel] * (1 - alpha));
+        }
+      }
+    }
+  }
+  
+  return encodePng({ width: size, height: size, data });
+}
@@ -0,0 +1,49 @@
+// Hits counted for one key in the current fixed window
+export interface RateLimitWindow {
+  count: number;
+  resetAt: number; // Epoch ms when the window ends
+}
+
+// Where rate limit counters live. The in-memory store is per process; a
+// shared store (e.g. Redis) can implement the same interface for clusters.
+export interface RateLimitStore {
+  hit(key: string, windowMs: number, now: number): Promise<RateLimitWindow>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Create a per-process rate limit store backed by a Map.
+ * Expired windows are swept lazily so idle keys don't accumulate.
+ * @returns Store with its own counters
+ */
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitWindow>();
+  let nextSweep = 0;
+  
+  return {
+    async hit(key, windowMs, now) {
+      if (now >= nextSweep) {
+        for (const [k, entry] of windows) {
+          if (entry.resetAt <= now) {
+            windows.delete(k);
+          }
+        }
+        nextSweep = now + windowMs;
+      }
+      
+      const entry = windows.get(key);
+      if (!entry || entry.resetAt <= now) {
+        const fresh = { count: 1, resetAt: now + windowMs };
+        windows.set(key, fresh);
+        return { ...fresh };
+      }
+      
+      entry.count++;
+      return { ...entry };
+    },
+    
+    async reset(key) {
+      windows.delete(key);
+    }
+  };
+}
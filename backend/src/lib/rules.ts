@@ -0,0 +1,124 @@
+import type { RedirectRule } from '@prisma/client';
+
+// Operating systems and device types redirect rules can match on
+export const RULE_OS = ['ios', 'android', 'windows', 'macos', 'linux'] as const;
+export const RULE_DEVICES = ['mobile', 'tablet', 'desktop'] as const;
+
+// Most rules a single link may have
+export const MAX_RULES_PER_LINK = 20;
+
+// Redirect rule as accepted and returned by the API (missing list = any)
+export interface RedirectRuleInput {
+  targetUrl: string;
+  os?: typeof RULE_OS[number][];
+  devices?: typeof RULE_DEVICES[number][];
+  languages?: string[];
+  countries?: string[];
+}
+
+// What is known about a visitor when rules are evaluated
+export interface Visitor {
+  os: string | null;
+  device: typeof RULE_DEVICES[number];
+  language: string | null;
+  country: string | null;
+}
+
+/**
+ * Detect the operating system and device type from a User-Agent header
+ * @param userAgent User-Agent header (may be empty)
+ * @returns OS (one of RULE_OS, or null if unknown) and device type
+ */
+export function detectClient(userAgent: string): Pick<Visitor, 'os' | 'device'> {
+  // iOS user agents also claim to be "like Mac OS X", so check them first
+  const os = /iPhone|iPad|iPod/.test(userAgent) ? 'ios'
+    : /Android/.test(userAgent) ? 'android'
+    : /Windows/.test(userAgent) ? 'windows'
+    : /Macintosh|Mac OS X/.test(userAgent) ? 'macos'
+    : /Linux|X11|CrOS/.test(userAgent) ? 'linux'
+    : null;
+    
+  // Android tablets leave "Mobile" out of their user agent
+  const device = /iPad|Tablet/.test(userAgent) || (os === 'android' && !/Mobile/.test(userAgent)) ? 'tablet'
+    : /Mobi|iPhone|iPod/.test(userAgent) ? 'mobile'
+    : 'desktop';
+    
+  return { os, device };
+}
+
+/**
+ * Pick the visitor's most preferred language from an Accept-Language header
+ * @param header Accept-Language header, e.g. "de-AT,de;q=0.9,en;q=0.5"
+ * @returns Lowercase language tag such as "de-at", or null if none is given
+ */
+export function preferredLanguage(header: string | undefined): string | null {
+  let best: { tag: string; q: number } | null = null;
+  
+  for (const part of (header ?? '').split(',')) {
+    const [tag, ...params] = part.trim().split(';');
+    const qParam = params.find(param => param.trim().startsWith('q='));
+    const q = qParam ? Number(qParam.trim().slice(2)) : 1;
+    
+    if (tag && tag !== '*' && q > 0 && (!best || q > best.q)) {
+      best = { tag: tag.toLowerCase(), q };
+    }
+  }
+  
+  return best?.tag ?? null;
+}
+
+// Helper function to split a stored condition (null = any)
+function conditionValues(value: string | null): string[] | undefined {
+  return value ? value.split(',') : undefined;
+}
+
+/**
+ * Find the first rule whose conditions all match the visitor. A language
+ * condition like "de" matches "de" and regional variants such as "de-at".
+ * @param rules Rules of a link, in position order
+ * @param visitor Visitor details (see detectClient, preferredLanguage, lookupCountry)
+ * @returns Matching rule, or null to use the link's own target
+ */
+export function matchRule<T extends RedirectRule>(rules: T[], visitor: Visitor): T | null {
+  const matches = (allowed: string[] | undefined, value: string | null, prefix = false) =>
+    !allowed || (value !== null && allowed.some(entry => value === entry || (prefix && value.startsWith(`${entry}-`))));
+    
+  return rules.find(rule =>
+    matches(conditionValues(rule.os), visitor.os) &&
+    matches(conditionValues(rule.devices), visitor.device) &&
+    matches(conditionValues(rule.languages), visitor.language, true) &&
+    matches(conditionValues(rule.countries), visitor.country)
+  ) ?? null;
+}
+
+/**
+ * Turn API rules into RedirectRule rows for a nested Prisma create
+ * @param rules Validated rules, in the order they should be tried
+ * @returns Rows with positions and comma-joined conditions
+ */
+export function ruleRows(rules: RedirectRuleInput[]) {
+  return rules.map((rule, position) => ({
+    position,
+    targetUrl: rule.targetUrl,
+    os: rule.os?.join(',') ?? null,
+    devices: rule.devices?.join(',') ?? null,
+    languages: rule.languages?.join(',') ?? null,
+    countries: rule.countries?.join(',') ?? null
+  }));
+}
+
+/**
+ * Shape a stored rule for API responses
+ * @param rule RedirectRule row
+ * @returns Rule with its id and the conditions that are set
+ */
+export function serializeRule(rule: RedirectRule) {
+  return {
+    id: rule.id,
+    targetUrl: rule.targetUrl,
+    ...(rule.os && { os: conditionValues(rule.os) }),
+    ...(rule.devices && { devices: conditionValues(rule.devices) }),
+    ...(rule.languages && { languages: conditionValues(rule.languages) }),
+    ...(rule.countries && { countries: conditionValues(rule.countries) })
+  };
+}
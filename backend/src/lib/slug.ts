@@ -1,21 +1,224 @@
 import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { Env } from '../env';
+import { slugPolicyViolation } from './slugpolicy';
 
 // Base62 character set: 0-9, A-Z, a-z (URL-safe)
-const BASE62_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+export const BASE62_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// How generated slugs are made when the client does not pick one
+export const SLUG_STRATEGIES = ['random', 'words', 'counter', 'hash'] as const;
+
+export type SlugStrategy = typeof SLUG_STRATEGIES[number];
+
+// Short, neutral words for readable slugs like "amber-otter-river"
+const SLUG_WORDS = [
+  'acorn', 'amber', 'anchor', 'apple', 'arrow', 'aspen', 'atlas', 'autumn',
+  'badge', 'bamboo', 'basil', 'beacon', 'berry', 'birch', 'bison', 'blossom',
+  'breeze', 'brook', 'cactus', 'candle', 'canyon', 'cedar', 'cherry', 'cloud',
+  'clover', 'comet', 'copper', 'coral', 'cotton', 'crane', 'crystal', 'daisy',
+  'delta', 'desert', 'dolphin', 'dune', 'eagle', 'ember', 'falcon', 'fern',
+  'field', 'flint', 'forest', 'fox', 'galaxy', 'garden', 'ginger', 'glacier',
+  'granite', 'grove', 'harbor', 'hazel', 'heron', 'honey', 'island', 'ivory',
+  'jade', 'jasmine', 'juniper', 'kettle', 'koala', 'lagoon', 'lantern', 'lemon',
+  'lily', 'lotus', 'maple', 'marble', 'meadow', 'melon', 'meteor', 'mint',
+  'mist', 'moon', 'moss', 'nectar', 'nova', 'oak', 'ocean', 'olive',
+  'orbit', 'orchid', 'otter', 'owl', 'panda', 'pebble', 'pepper', 'pine',
+  'planet', 'plum', 'pond', 'poppy', 'prairie', 'quartz', 'rain', 'raven',
+  'reef', 'river', 'robin', 'rocket', 'saffron', 'sage', 'salmon', 'sparrow',
+  'spruce', 'star', 'stone', 'summit', 'sun', 'swan', 'thistle', 'thunder',
+  'tiger', 'timber', 'topaz', 'tulip', 'valley', 'velvet', 'violet', 'walnut',
+  'wave', 'willow', 'winter', 'wren', 'yarrow', 'zebra', 'zenith', 'zephyr'
+];
+
+// Longest slug the API accepts (see createLinkSchema); generated slugs never
+// grow past it
+const MAX_SLUG_LENGTH = 64;
+
+// Most words a word slug can have and still fit in MAX_SLUG_LENGTH
+const MAX_SLUG_WORDS = Math.floor((MAX_SLUG_LENGTH + 1) / (Math.max(...SLUG_WORDS.map(word => word.length)) + 1));
+
+// Generated slugs get one unit longer (character or word) when more than
+// this share of the last COLLISION_WINDOW generated slugs collided
+const COLLISION_WINDOW = 100;
+const COLLISION_THRESHOLD = 0.1;
+
+// Recent collision outcomes (1 = collided) and the learned extra length per strategy
+const collisionStats = new Map<SlugStrategy, { outcomes: number[]; extraLength: number }>();
+
+export interface SlugRequest {
+  strategy: SlugStrategy;
+  targetUrl: string;
+  attempt: number; // 0 for the first try; each retry after a collision is one unit longer
+}
 
 /**
- * Generate a random URL-safe slug using Base62 encoding
- * @param len Length of the slug (default: 7)
- * @returns Random Base62 string
+ * Generate a random slug without modulo bias
+ * @param len Length of the slug (default: SLUG_LENGTH)
+ * @param alphabet Characters to pick from (default: SLUG_ALPHABET)
+ * @returns Random string
  */
-export function randomSlug(len: number = 7): string {
-  const bytes = crypto.randomBytes(len);
+export function randomSlug(len: number = Number(Env.SLUG_LENGTH), alphabet: string = Env.SLUG_ALPHABET): string {
   let result = '';
   
   for (let i = 0; i < len; i++) {
-    // Use modulo to map byte value to Base62 character
-    result += BASE62_CHARS[bytes[i] % BASE62_CHARS.length];
+    // randomInt rejects out-of-range values instead of wrapping them
+    result += alphabet[crypto.randomInt(alphabet.length)];
   }
   
   return result;
 }
+
+/**
+ * Generate a readable slug of random words joined by dashes
+ * @param count Number of words (default: SLUG_WORD_COUNT)
+ * @returns Slug such as "amber-otter-river"
+ */
+export function wordSlug(count: number = Number(Env.SLUG_WORD_COUNT)): string {
+  return Array.from({ length: count }, () => SLUG_WORDS[crypto.randomInt(SLUG_WORDS.length)]).join('-');
+}
+
+/**
+ * Derive a slug from a hash of the target URL, so the same URL always gets
+ * the same first-choice slug
+ * @param targetUrl Link target
+ * @param len Length of the slug (default: SLUG_LENGTH)
+ * @returns Base62 prefix of the URL's SHA-256 digest, continued with digests
+ * of the digest when one doesn't cover the length
+ */
+export function hashSlug(targetUrl: string, len: number = Number(Env.SLUG_LENGTH)): string {
+  let digest = crypto.createHash('sha256').update(targetUrl).digest();
+  let result = '';
+  
+  while (result.length < len) {
+    // A 256-bit digest has 42 full Base62 digits
+    let value = BigInt('0x' + digest.toString('hex'));
+    for (let i = 0; i < 42 && result.length < len; i++) {
+      result += BASE62_CHARS[Number(value % 62n)];
+      value /= 62n;
+    }
+    digest = crypto.createHash('sha256').update(digest).digest();
+  }
+  
+  return result;
+}
+
+// Helper function to shuffle an alphabet in a salt-dependent but stable order
+// (the "consistent shuffle" used by hashids)
+function shuffleAlphabet(alphabet: string, salt: string) {
+  const chars = [...alphabet];
+  if (!salt) {
+    return chars;
+  }
+  
+  for (let i = chars.length - 1, v = 0, p = 0; i > 0; i--, v++) {
+    v %= salt.length;
+    const code = salt.charCodeAt(v);
+    p += code;
+    const j = (code + v + p) % i;
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  
+  return chars;
+}
+
+/**
+ * Encode a counter value hashids-style: in the base of a salt-shuffled
+ * alphabet, padded to a minimum length. Distinct values give distinct slugs.
+ * @param value Non-negative counter value
+ * @param minLength Shortest slug to return (default: SLUG_LENGTH)
+ * @returns Encoded slug
+ */
+export function encodeCounter(value: number, minLength: number = Number(Env.SLUG_LENGTH)): string {
+  const chars = shuffleAlphabet(Env.SLUG_ALPHABET, Env.SLUG_SALT);
+  let result = '';
+  
+  do {
+    result = chars[value % chars.length] + result;
+    value = Math.floor(value / chars.length);
+  } while (value > 0);
+  
+  return result.padStart(minLength, chars[0]);
+}
+
+// Helper function to take the next value of the slug counter
+async function nextCounterValue(db: Prisma.TransactionClient) {
+  const counter = await db.counter.upsert({
+    where: { name: 'slug' },
+    create: { name: 'slug', value: 1 },
+    update: { value: { increment: 1 } }
+  });
+  
+  return counter.value;
+}
+
+// Helper function to get how many units a strategy's slugs can grow by before
+// reaching MAX_SLUG_LENGTH
+function maxExtraLength(strategy: SlugStrategy) {
+  return strategy === 'words'
+    ? MAX_SLUG_WORDS - Number(Env.SLUG_WORD_COUNT)
+    : MAX_SLUG_LENGTH - Number(Env.SLUG_LENGTH);
+}
+
+// Helper function to produce one candidate slug for a strategy
+async function candidateSlug({ strategy, targetUrl, attempt }: SlugRequest, variant: number, db: Prisma.TransactionClient) {
+  const extra = Math.min((collisionStats.get(strategy)?.extraLength ?? 0) + attempt, maxExtraLength(strategy));
+  
+  switch (strategy) {
+    case 'words':
+      return wordSlug(Number(Env.SLUG_WORD_COUNT) + extra);
+    case 'counter':
+      // Counter values never repeat, so retries just take the next one
+      return encodeCounter(await nextCounterValue(db));
+    case 'hash':
+      // Only the first try is deterministic; retries (e.g. the same URL
+      // shortened again) are salted so they don't collide forever
+      return hashSlug(
+        attempt === 0 && variant === 0 ? targetUrl : `${targetUrl}#${randomSlug(8, BASE62_CHARS)}`,
+        Number(Env.SLUG_LENGTH) + extra
+      );
+    default:
+      return randomSlug(Number(Env.SLUG_LENGTH) + extra);
+  }
+}
+
+/**
+ * Generate a slug with the given strategy that the slug policy allows
+ * (generated slugs can spell reserved or denied words). Slugs are longer on
+ * retries and once collisions become frequent (see recordSlugOutcome).
+ * @param request Strategy, target URL and retry number
+ * @param db Prisma client or transaction client (default: shared client)
+ * @returns Candidate slug; uniqueness is enforced when the link is inserted
+ */
+export async function generateSlug(request: SlugRequest, db: Prisma.TransactionClient = prisma): Promise<string> {
+  for (let variant = 0; ; variant++) {
+    const slug = await candidateSlug(request, variant, db);
+    if (!slugPolicyViolation(slug)) {
+      return slug;
+    }
+  }
+}
+
+/**
+ * Record whether a generated slug collided with an existing one. When
+ * collisions get frequent the strategy's slugs grow by one unit, up to
+ * MAX_SLUG_LENGTH.
+ * @param strategy Strategy that generated the slug
+ * @param collided True if the slug was already taken
+ */
+export function recordSlugOutcome(strategy: SlugStrategy, collided: boolean) {
+  const stats = collisionStats.get(strategy) ?? { outcomes: [], extraLength: 0 };
+  collisionStats.set(strategy, stats);
+  
+  stats.outcomes.push(collided ? 1 : 0);
+  if (stats.outcomes.length < COLLISION_WINDOW) {
+    return;
+  }
+  
+  const collisions = stats.outcomes.reduce((sum, outcome) => sum + outcome, 0);
+  if (collisions / stats.outcomes.length > COLLISION_THRESHOLD) {
+    stats.extraLength = Math.min(stats.extraLength + 1, maxExtraLength(strategy));
+  }
+  stats.outcomes = [];
+}
@@ -0,0 +1,145 @@
+import { readFileSync, statSync } from 'fs';
+import { Env } from '../env';
+
+// Slugs that look like routes or official pages of the shortener
+const BUILT_IN_RESERVED_SLUGS = [
+  'about', 'admin', 'api', 'app', 'assets', 'auth', 'dashboard', 'docs',
+  'health', 'help', 'login', 'logout', 'p', 'r', 'register', 'settings',
+  'signin', 'signup', 'static', 'status', 'support', 'www'
+];
+
+// Letters each digit can stand in for in leetspeak
+const LEET_LETTERS: Record<string, string> = {
+  '0': 'o',
+  '1': 'il',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '9': 'g'
+};
+
+// Entries loaded from SLUG_POLICY_FILE
+interface SlugPolicy {
+  denied: string[]; // Disallowed anywhere in a slug
+  deniedExact: string[]; // Disallowed as the whole slug only
+  allowed: Set<string>; // Slugs exempt from the policy
+}
+
+let cachedPolicy: { mtimeMs: number; policy: SlugPolicy } | null = null;
+
+// Helper function to compare slugs and words without case or separators
+function normalize(value: string) {
+  return value.toLowerCase().replace(/[-_\s]/g, '');
+}
+
+/**
+ * Parse a slug policy file. Each line is a word no slug may contain,
+ * "=word" to disallow only the exact slug, or "allow <slug>" to exempt a
+ * slug from the reserved words and the denylist. Blank lines and "#"
+ * comments are ignored.
+ * @param text File contents
+ * @returns Denied words and allowed slugs
+ */
+export function parseSlugPolicy(text: string): SlugPolicy {
+  const policy: SlugPolicy = { denied: [], deniedExact: [], allowed: new Set() };
+  
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) {
+      continue;
+    }
+    
+    const allow = line.match(/^allow\s+(\S+)$/i);
+    if (allow) {
+      policy.allowed.add(allow[1].toLowerCase());
+      continue;
+    }
+    
+    // Entries without letters or digits would match every slug
+    const word = normalize(line.replace(/^=/, ''));
+    if (!word) {
+      continue;
+    }
+    
+    if (line.startsWith('=')) {
+      policy.deniedExact.push(word);
+    } else {
+      policy.denied.push(word);
+    }
+  }
+  
+  return policy;
+}
+
+// Helper function to load the policy file, re-reading it when it changes
+function loadSlugPolicy(): SlugPolicy {
+  if (!Env.SLUG_POLICY_FILE) {
+    return { denied: [], deniedExact: [], allowed: new Set() };
+  }
+  
+  const { mtimeMs } = statSync(Env.SLUG_POLICY_FILE);
+  if (cachedPolicy?.mtimeMs !== mtimeMs) {
+    cachedPolicy = {
+      mtimeMs,
+      policy: parseSlugPolicy(readFileSync(Env.SLUG_POLICY_FILE, 'utf8'))
+    };
+  }
+  
+  return cachedPolicy.policy;
+}
+
+// Helper function to match a word at a position, reading leetspeak digits as letters
+function matchesAt(text: string, word: string, start: number) {
+  for (let i = 0; i < word.length; i++) {
+    const char = text[start + i];
+    if (char !== word[i] && !LEET_LETTERS[char]?.includes(word[i])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Helper function to check whether a normalized slug contains a word
+function containsWord(text: string, word: string) {
+  for (let start = 0; start + word.length <= text.length; start++) {
+    if (matchesAt(text, word, start)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check a user-chosen slug against the reserved words (built in plus
+ * RESERVED_SLUGS) and the denylist in SLUG_POLICY_FILE. Denylist matching
+ * ignores case, dashes and underscores and reads digits as leetspeak.
+ * @param slug Slug that already passed the format check
+ * @returns Why the slug is not allowed, or null if it is allowed
+ */
+export function slugPolicyViolation(slug: string): string | null {
+  const policy = loadSlugPolicy();
+  const lower = slug.toLowerCase();
+  
+  if (policy.allowed.has(lower)) {
+    return null;
+  }
+  
+  const reserved = [
+    ...BUILT_IN_RESERVED_SLUGS,
+    ...Env.RESERVED_SLUGS.split(',').map(word => word.trim().toLowerCase())
+  ];
+  if (reserved.includes(lower)) {
+    return `Slug "${slug}" is reserved`;
+  }
+  
+  const text = normalize(slug);
+  const denied = policy.denied.some(word => containsWord(text, word)) ||
+    policy.deniedExact.some(word => word.length === text.length && matchesAt(text, word, 0));
+  if (denied) {
+    return 'Slug contains a word that is not allowed';
+  }
+  
+  return null;
+}
@@ -0,0 +1,51 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+/**
+ * Find or create tags by name so they can be connected to a link
+ * @param names Normalized tag names (see tagNameSchema)
+ * @param db Prisma client or transaction client (default: shared client)
+ * @returns Tag ids in the same order as the names
+ */
+export async function ensureTags(names: string[], db: Prisma.TransactionClient = prisma): Promise<{ id: string }[]> {
+  const tags: { id: string }[] = [];
+  
+  // SQLite has no createMany skipDuplicates; upsert one by one (at most MAX_TAGS_PER_LINK)
+  for (const name of names) {
+    tags.push(await db.tag.upsert({
+      where: { name },
+      create: { name },
+      update: {},
+      select: { id: true }
+    }));
+  }
+  
+  return tags;
+}
+
+/**
+ * Look up a tag used in a workspace, throwing NOT_FOUND (404) otherwise.
+ * Tags are shared, so a tag only used by other workspaces counts as missing.
+ * @param name Tag name from the URL (matched case-insensitively)
+ * @param workspaceId Caller's workspace
+ * @returns Tag id and normalized name
+ */
+export async function findTagOrThrow(name: string, workspaceId: string): Promise<{ id: string; name: string }> {
+  const tag = await prisma.tag.findFirst({
+    where: {
+      name: name.trim().toLowerCase(),
+      links: { some: { workspaceId } }
+    },
+    select: { id: true, name: true }
+  });
+  
+  if (!tag) {
+    throw {
+      status: 404,
+      code: 'NOT_FOUND',
+      message: 'Tag not found'
+    };
+  }
+  
+  return tag;
+}
@@ -0,0 +1,99 @@
+import type { Link } from '@prisma/client';
+
+// UTM fields of the API mapped to their Link columns and query parameters
+export const UTM_FIELDS = {
+  source: { column: 'utmSource', param: 'utm_source' },
+  medium: { column: 'utmMedium', param: 'utm_medium' },
+  campaign: { column: 'utmCampaign', param: 'utm_campaign' },
+  term: { column: 'utmTerm', param: 'utm_term' },
+  content: { column: 'utmContent', param: 'utm_content' }
+} as const;
+
+// Status codes a link can redirect with: permanent (301, 308) or temporary
+// (302, 307); 307 and 308 make clients repeat the request method and body
+export const REDIRECT_TYPES = [301, 302, 307, 308] as const;
+
+export type RedirectType = typeof REDIRECT_TYPES[number];
+
+/**
+ * Check whether a redirect status makes clients keep the request method
+ * @param redirectType Link redirect status code
+ * @returns True for 307 and 308
+ */
+export function preservesMethod(redirectType: number): boolean {
+  return redirectType === 307 || redirectType === 308;
+}
+
+export type UtmField = keyof typeof UTM_FIELDS;
+
+export type Utm = Partial<Record<UtmField, string>>;
+
+type UtmColumns = Pick<Link, typeof UTM_FIELDS[UtmField]['column']>;
+
+/**
+ * Map API UTM fields to Link columns. Fields that are left out are cleared,
+ * so the given set replaces the link's current one.
+ * @param utm UTM fields, or null to clear them all
+ * @returns Column values for a Prisma create or update
+ */
+export function utmColumns(utm: Utm | null): UtmColumns {
+  const columns = {} as UtmColumns;
+  
+  for (const [field, { column }] of Object.entries(UTM_FIELDS)) {
+    columns[column] = utm?.[field as UtmField] ?? null;
+  }
+  
+  return columns;
+}
+
+/**
+ * Read a link's UTM columns back as API fields
+ * @param link Link row
+ * @returns UTM fields that are set, or null when none are
+ */
+export function linkUtm(link: UtmColumns): Utm | null {
+  const utm: Utm = {};
+  
+  for (const [field, { column }] of Object.entries(UTM_FIELDS)) {
+    const value = link[column];
+    if (value !== null) {
+      utm[field as UtmField] = value;
+    }
+  }
+  
+  return Object.keys(utm).length > 0 ? utm : null;
+}
+
+/**
+ * Build the URL a visitor is redirected to. The link's UTM fields replace any
+ * utm_* parameters already in the target. With forwardQuery, the visitor's
+ * query parameters are added too, but never override a parameter the target
+ * already has, so visitors can't change what the link owner set.
+ * @param link Link with its target, UTM fields and forwardQuery setting
+ * @param search Query string of the incoming request, with or without "?"
+ * @returns Final redirect URL
+ */
+export function buildTargetUrl(link: UtmColumns & Pick<Link, 'targetUrl' | 'forwardQuery'>, search: string): string {
+  const utm = linkUtm(link);
+  if (!utm && !(link.forwardQuery && search.replace(/^\?/, ''))) {
+    // Nothing to add; keep the target exactly as stored
+    return link.targetUrl;
+  }
+  
+  const url = new URL(link.targetUrl);
+  
+  for (const [field, value] of Object.entries(utm ?? {})) {
+    url.searchParams.set(UTM_FIELDS[field as UtmField].param, value);
+  }
+  
+  if (link.forwardQuery) {
+    const owned = new Set(url.searchParams.keys());
+    for (const [key, value] of new URLSearchParams(search)) {
+      if (!owned.has(key)) {
+        url.searchParams.append(key, value);
+      }
+    }
+  }
+  
+  return url.toString();
+}
@@ -0,0 +1,31 @@
+import { prisma } from '../db';
+import { Env } from '../env';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Compute when an archived link becomes eligible for permanent deletion
+ * @param archivedAt When the link was moved to the trash
+ * @returns Date after which the link is purged
+ */
+export function purgeDate(archivedAt: Date): Date {
+  return new Date(archivedAt.getTime() + Number(Env.TRASH_RETENTION_DAYS) * DAY_MS);
+}
+
+/**
+ * Permanently delete links that have been archived for longer than the
+ * retention period. Their clicks are removed by the cascading relation.
+ * @param now Reference time (default: current time)
+ * @returns Number of links purged
+ */
+export async function purgeExpiredLinks(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - Number(Env.TRASH_RETENTION_DAYS) * DAY_MS);
+  
+  const { count } = await prisma.link.deleteMany({
+    where: {
+      archivedAt: { lt: cutoff }
+    }
+  });
+  
+  return count;
+}
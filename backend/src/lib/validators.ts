@@ -1,24 +1,258 @@
 import { z } from 'zod';
+import { API_KEY_SCOPES } from './keys';
+import { ROLES } from './workspaces';
+import { slugPolicyViolation } from './slugpolicy';
+import { SLUG_STRATEGIES } from './slug';
+import { RULE_OS, RULE_DEVICES, MAX_RULES_PER_LINK } from './rules';
+import { MAX_VARIANTS_PER_LINK } from './variants';
+import { REDIRECT_TYPES } from './targets';
+import { QR_LEVELS } from './qr';
+import { QR_FORMATS, QR_MIN_SIZE, QR_MAX_SIZE, QR_MAX_MARGIN, QR_MAX_LOGO_BYTES } from './qrimage';
+import { decodePng } from './png';
+import { isPrivateAddress } from './destinations';
+import { WEBHOOK_EVENTS, DELIVERY_STATUSES } from './webhooks';
+
+// Upper bound on tags attached to a single link
+export const MAX_TAGS_PER_LINK = 20;
+
+// Schema for a tag name - case-insensitive, stored lowercase
+export const tagNameSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9][a-z0-9 _-]{0,31}$/, 'Tag must be 1-32 characters of letters, numbers, space, underscore, or dash');
+
+// Host names as sent in the Host header, with an optional port
+const HOST_PATTERN = /^(?=.{1,253}(:|$))[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*(:\d{1,5})?$/;
+
+// Schema for a domain host, e.g. "go.brand-a.com"
+export const hostSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .regex(HOST_PATTERN, 'Host must be a valid host name, optionally with a port');
+
+// Schema for a link target - http(s) URLs only
+const targetUrlSchema = z.url('Target URL must be a valid URL')
+  .refine((url) => {
+    try {
+      const protocol = new URL(url).protocol;
+      return protocol === 'http:' || protocol === 'https:';
+    } catch {
+      // If URL construction fails, this is an invalid URL that somehow
+      // passed z.url() - treat as failing the protocol check
+      return false;
+    }
+  }, 'Target URL must use http or https protocol');
+
+// Schema for a redirect rule - an alternative target for matching visitors
+export const redirectRuleSchema = z.object({
+  targetUrl: targetUrlSchema,
+  
+  os: z.array(z.enum(RULE_OS, { message: `OS must be one of ${RULE_OS.join(', ')}` }))
+    .min(1, 'OS list must not be empty')
+    .optional(),
+  
+  devices: z.array(z.enum(RULE_DEVICES, { message: `Device must be one of ${RULE_DEVICES.join(', ')}` }))
+    .min(1, 'Device list must not be empty')
+    .optional(),
+  
+  // Language tags such as "de" or "pt-BR"
+  languages: z.array(z.string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/, 'Language must be a language tag such as "de" or "pt-BR"'))
+    .min(1, 'Language list must not be empty')
+    .optional(),
+  
+  // ISO 3166-1 alpha-2 country codes
+  countries: z.array(z.string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{2}$/, 'Country must be a two-letter country code such as "US"'))
+    .min(1, 'Country list must not be empty')
+    .optional()
+}).refine((rule) => rule.os || rule.devices || rule.languages || rule.countries, {
+  message: 'A rule needs at least one of os, devices, languages or countries'
+});
+
+// Schema for a weighted A/B variant
+export const variantSchema = z.object({
+  // Existing variant to keep (and its analytics) when updating
+  id: z.string().min(1).optional(),
+  
+  targetUrl: targetUrlSchema,
+  
+  weight: z.number()
+    .int('Weight must be a whole number')
+    .min(0, 'Weight must be between 0 and 1000')
+    .max(1000, 'Weight must be between 0 and 1000')
+});
+
+// Schema for a single UTM value, e.g. "newsletter"
+const utmValueSchema = z.string()
+  .trim()
+  .min(1, 'UTM values must not be empty')
+  .max(200, 'UTM values must be at most 200 characters');
+
+// Schema for the UTM fields appended to a link's target on redirect
+export const utmSchema = z.object({
+  source: utmValueSchema.optional(),
+  medium: utmValueSchema.optional(),
+  campaign: utmValueSchema.optional(),
+  term: utmValueSchema.optional(),
+  content: utmValueSchema.optional()
+});
+
+// Schema for the Open Graph fields link-preview crawlers are shown
+export const ogSchema = z.object({
+  title: z.string()
+    .trim()
+    .min(1, 'Open Graph title must not be empty')
+    .max(200, 'Open Graph title must be at most 200 characters')
+    .optional(),
+  
+  description: z.string()
+    .trim()
+    .min(1, 'Open Graph description must not be empty')
+    .max(500, 'Open Graph description must be at most 500 characters')
+    .optional(),
+  
+  image: z.url({ protocol: /^https?$/, message: 'Open Graph image must be an http or https URL' })
+    .max(2048, 'Open Graph image URL must be at most 2048 characters')
+    .optional()
+});
 
 // Schema for creating a link
 export const createLinkSchema = z.object({
-  targetUrl: z.url('Target URL must be a valid URL')
-    .refine((url) => {
-      try {
-        const protocol = new URL(url).protocol;
-        return protocol === 'http:' || protocol === 'https:';
-      } catch {
-        // If URL construction fails, this is an invalid URL that somehow
-        // passed z.url() - treat as failing the protocol check
-        return false;
-      }
-    }, 'Target URL must use http or https protocol'),
+  targetUrl: targetUrlSchema,
   
   slug: z.string()
     .regex(/^[A-Za-z0-9_-]{1,64}$/, 'Slug must be 1-64 characters of letters, numbers, underscore, or dash')
+    .superRefine((slug, ctx) => {
+      // Reserved words and the denylist (see SLUG_POLICY_FILE)
+      const violation = slugPolicyViolation(slug);
+      if (violation) {
+        ctx.addIssue({ code: 'custom', message: violation });
+      }
+    })
+    .optional(),
+  
+  // Optional limits after which the link stops redirecting (null = no limit)
+  expiresAt: z.iso
+    .datetime({ message: 'Expiry must be a valid ISO datetime string' })
+    .refine((value) => new Date(value) > new Date(), 'Expiry must be in the future')
+    .nullable()
+    .optional(),
+  
+  maxClicks: z.number()
+    .int('Max clicks must be a whole number')
+    .positive('Max clicks must be at least 1')
+    .nullable()
+    .optional(),
+  
+  // Optional password visitors must enter before being redirected (null = remove)
+  password: z.string()
+    .min(4, 'Password must be at least 4 characters')
+    .max(128, 'Password must be at most 128 characters')
+    .nullable()
+    .optional(),
+  
+  // Tags replace the link's current set; duplicates are collapsed
+  tags: z.array(tagNameSchema)
+    .max(MAX_TAGS_PER_LINK, `A link can have at most ${MAX_TAGS_PER_LINK} tags`)
+    .transform((tags) => [...new Set(tags)])
+    .optional(),
+  
+  // Branded domain host the link is served on (null or omitted = default domain)
+  domain: hostSchema
+    .nullable()
+    .optional(),
+  
+  // Redirect status code (default: 302); 307/308 also redirect other methods
+  redirectType: z.literal(REDIRECT_TYPES, { message: `Redirect type must be one of ${REDIRECT_TYPES.join(', ')}` })
+    .optional(),
+  
+  // Forward the visitor's query string to the target (default: false)
+  forwardQuery: z.boolean({ message: 'forwardQuery must be true or false' })
+    .optional(),
+  
+  // UTM fields replace the link's current set (null = remove them all)
+  utm: utmSchema
+    .nullable()
+    .optional(),
+  
+  // Social card for chat apps and social networks (null = remove it)
+  og: ogSchema
+    .nullable()
+    .optional(),
+  
+  // Redirect rules, tried in order before falling back to targetUrl;
+  // they replace the link's current rules
+  rules: z.array(redirectRuleSchema)
+    .max(MAX_RULES_PER_LINK, `A link can have at most ${MAX_RULES_PER_LINK} rules`)
+    .optional(),
+  
+  // Weighted A/B variants that replace targetUrl as the default destination;
+  // they replace the link's current variants (an empty list removes them)
+  variants: z.array(variantSchema)
+    .max(MAX_VARIANTS_PER_LINK, `A link can have at most ${MAX_VARIANTS_PER_LINK} variants`)
+    .refine((variants) => variants.length === 0 || variants.some(variant => variant.weight > 0), 'At least one variant needs a weight above 0')
+    .optional(),
+  
+  // Show every visitor the preview page before redirecting (default: false)
+  forcePreview: z.boolean({ message: 'forcePreview must be true or false' })
+    .optional(),
+  
+  // Keep each visitor on the variant they were first given (default: false)
+  stickyVariants: z.boolean({ message: 'stickyVariants must be true or false' })
+    .optional(),
+  
+  // How to generate the slug when none is given (default: SLUG_STRATEGY)
+  slugStrategy: z.enum(SLUG_STRATEGIES, { message: `Slug strategy must be one of ${SLUG_STRATEGIES.join(', ')}` })
+    .optional()
+});
+
+// Schema for updating a link - same field rules as creation, all optional
+export const updateLinkSchema = createLinkSchema
+  .omit({ slugStrategy: true })
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field must be provided'
+  });
+
+// Schema for listing links - cursor pagination, search and sorting
+export const listLinksQuerySchema = z.object({
+  limit: z.coerce.number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .default(20),
+  
+  // Opaque cursor: the id of the last link on the previous page
+  cursor: z.string().min(1).optional(),
+  
+  q: z.string()
+    .trim()
+    .max(200, 'Search query must be at most 200 characters')
+    .optional(),
+  
+  tag: tagNameSchema.optional(),
+  
+  sort: z.enum(['createdAt', 'slug', 'clicks'], { message: 'Sort must be one of createdAt, slug, clicks' })
+    .default('createdAt'),
+  
+  order: z.enum(['asc', 'desc'], { message: 'Order must be asc or desc' })
     .optional()
 });
 
+// Schema for bulk import options (query string flags)
+export const importOptionsSchema = z.object({
+  // Validate and check slugs without writing anything
+  dryRun: z.stringbool({ error: 'dryRun must be true or false' }).default(false),
+  
+  // All-or-nothing: create every row in one transaction or none at all
+  atomic: z.stringbool({ error: 'atomic must be true or false' }).default(false)
+});
+
 // Schema for date range queries
 export const dateRangeSchema = z.object({
   from: z.iso
@@ -29,21 +263,185 @@ export const dateRangeSchema = z.object({
     .optional()
 });
 
-// Helper function to parse and validate link creation data
-export function parseCreateLink(body: any) {
+// Schema for export queries - output format plus optional link and date range
+export const exportQuerySchema = dateRangeSchema.extend({
+  format: z.enum(['csv', 'ndjson'], { message: 'Format must be csv or ndjson' })
+    .default('csv'),
+  
+  linkId: z.string().min(1).optional()
+});
+
+// Center logo of a QR code: a base64 data: URL of a PNG, JPEG or SVG image
+const LOGO_DATA_URL = /^data:(image\/(?:png|jpeg|svg\+xml));base64,([A-Za-z0-9+/]+={0,2})$/;
+
+// Helper function to build a hex color schema; the "#" is optional since it
+// has to be URL-encoded in a query string. Colors come out as #rrggbb.
+function hexColorSchema(field: string) {
+  return z.string()
+    .regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i, `${field} must be a hex color such as #1a2b3c`)
+    .transform((color) => {
+      const hex = color.replace('#', '').toLowerCase();
+      return `#${hex.length === 3 ? hex.replace(/./g, '$&$&') : hex}`;
+    });
+}
+
+// Schema for QR code options (query string)
+export const qrOptionsSchema = z.object({
+  format: z.enum(QR_FORMATS, { message: `Format must be one of ${QR_FORMATS.join(', ')}` })
+    .default('svg'),
+  
+  // Image width and height in pixels
+  size: z.coerce.number()
+    .int('Size must be a whole number')
+    .min(QR_MIN_SIZE, `Size must be between ${QR_MIN_SIZE} and ${QR_MAX_SIZE}`)
+    .max(QR_MAX_SIZE, `Size must be between ${QR_MIN_SIZE} and ${QR_MAX_SIZE}`)
+    .default(256),
+  
+  // Quiet zone around the code, in modules (scanners expect 4)
+  margin: z.coerce.number()
+    .int('Margin must be a whole number')
+    .min(0, `Margin must be between 0 and ${QR_MAX_MARGIN}`)
+    .max(QR_MAX_MARGIN, `Margin must be between 0 and ${QR_MAX_MARGIN}`)
+    .default(4),
+  
+  // Error correction level (default: M, or H with a logo)
+  level: z.enum(QR_LEVELS, { message: `Level must be one of ${QR_LEVELS.join(', ')}` })
+    .optional(),
+  
+  fg: hexColorSchema('fg').default('#000000'),
+  
+  bg: hexColorSchema('bg').default('#ffffff'),
+  
+  logo: z.string()
+    // Unencoded "+" signs of the base64 data arrive as spaces
+    .transform(value => value.replace(/ /g, '+'))
+    .pipe(z.string().regex(LOGO_DATA_URL, 'Logo must be a base64 data: URL of a PNG, JPEG or SVG image'))
+    .transform((value) => {
+      const [, mimeType, base64] = value.match(LOGO_DATA_URL)!;
+      return { mimeType, data: Buffer.from(base64, 'base64') };
+    })
+    .refine(logo => logo.data.length <= QR_MAX_LOGO_BYTES, `Logo must be at most ${QR_MAX_LOGO_BYTES / 1024} KB`)
+    .optional()
+}).superRefine((options, ctx) => {
+  if (!options.logo) {
+    return;
+  }
+  
+  // The logo hides part of the code, which level L can't reliably recover
+  if (options.level === 'L') {
+    ctx.addIssue({ code: 'custom', path: ['level'], message: 'A logo needs error correction level M, Q or H' });
+  }
+  
+  // PNG output draws the logo itself, so it must be a PNG it can decode
+  if (options.format === 'png' && options.logo.mimeType !== 'image/png') {
+    ctx.addIssue({ code: 'custom', path: ['logo'], message: 'PNG QR codes only support PNG logos' });
+  } else if (options.logo.mimeType === 'image/png') {
+    try {
+      decodePng(options.logo.data);
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', path: ['logo'], message: `Logo is not a supported PNG: ${(error as Error).message}` });
+    }
+  }
+});
+
+// Schema for creating an API key
+export const createApiKeySchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be at most 100 characters'),
+  
+  scopes: z.array(z.enum(API_KEY_SCOPES, { message: `Scope must be one of ${API_KEY_SCOPES.join(', ')}` }))
+    .min(1, 'At least one scope is required'),
+  
+  // Member the key acts as (default: the caller)
+  userId: z.string().min(1).optional()
+});
+
+// Schema for creating a workspace
+export const createWorkspaceSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be at most 100 characters')
+});
+
+// Schema for the Idempotency-Key header of POST /api/v1/links
+export const idempotencyKeySchema = z.string()
+  .trim()
+  .min(1, 'Idempotency-Key must not be empty')
+  .max(255, 'Idempotency-Key must be at most 255 characters')
+  .optional();
+
+// Schema for registering a branded domain
+export const createDomainSchema = z.object({
+  host: hostSchema
+});
+
+// Schema for creating a webhook subscription
+export const createWebhookSchema = z.object({
+  url: z.url({ protocol: /^https?$/, message: 'Webhook URL must be an http or https URL' })
+    .max(2048, 'Webhook URL must be at most 2048 characters')
+    .refine((url) => {
+      const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+      return hostname !== 'localhost' && !hostname.endsWith('.localhost') && !isPrivateAddress(hostname);
+    }, 'Webhook URL must not point to a private or local address'),
+  
+  events: z.array(z.enum(WEBHOOK_EVENTS, { message: `Event must be one of ${WEBHOOK_EVENTS.join(', ')}` }))
+    .min(1, 'At least one event is required'),
+  
+  // Paused webhooks queue nothing new
+  active: z.boolean({ message: 'active must be true or false' })
+    .optional()
+});
+
+// Schema for updating a webhook - same fields, all optional
+export const updateWebhookSchema = createWebhookSchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field must be provided'
+  });
+
+// Schema for the delivery log of a webhook - newest first
+export const listDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .default(50),
+  
+  status: z.enum(DELIVERY_STATUSES, { message: `Status must be one of ${DELIVERY_STATUSES.join(', ')}` })
+    .optional()
+});
+
+// Schema for adding a member to a workspace (or changing their role)
+export const memberSchema = z.object({
+  email: z.email('Email must be a valid email address')
+    .transform((email) => email.toLowerCase()),
+  
+  name: z.string()
+    .trim()
+    .max(100, 'Name must be at most 100 characters')
+    .optional(),
+  
+  role: z.enum(ROLES, { message: `Role must be one of ${ROLES.join(', ')}` })
+});
+
+// Helper function to run a schema and turn its issues into a VALIDATION_ERROR
+function parseWith<T extends z.ZodType>(schema: T, input: unknown, message = 'Invalid request data', field?: string): z.output<T> {
   try {
-    return createLinkSchema.parse(body);
+    return schema.parse(input);
   } catch (error) {
     if (error instanceof z.ZodError) {
       const details = error.issues.map((err: any) => ({
-        field: err.path.join('.'),
+        field: field ?? err.path.join('.'),
         message: err.message
       }));
       
       throw {
         status: 400,
         code: 'VALIDATION_ERROR',
-        message: 'Invalid request data',
+        message,
         details
       };
     }
@@ -51,24 +449,77 @@ export function parseCreateLink(body: any) {
   }
 }
 
+// Helper function to parse and validate link creation data
+export function parseCreateLink(body: any) {
+  return parseWith(createLinkSchema, body);
+}
+
+// Helper function to parse and validate link update data
+export function parseUpdateLink(body: any) {
+  return parseWith(updateLinkSchema, body);
+}
+
+// Helper function to parse and validate link list query parameters
+export function parseListLinks(query: any) {
+  return parseWith(listLinksQuerySchema, query, 'Invalid list parameters');
+}
+
+// Helper function to parse and validate bulk import options
+export function parseImportOptions(query: any) {
+  return parseWith(importOptionsSchema, query, 'Invalid import options');
+}
+
+// Helper function to parse and validate export query parameters
+export function parseExportQuery(query: any) {
+  return parseWith(exportQuerySchema, query, 'Invalid export parameters');
+}
+
+// Helper function to parse and validate QR code options
+export function parseQrOptions(query: any) {
+  return parseWith(qrOptionsSchema, query, 'Invalid QR code options');
+}
+
 // Helper function to parse and validate date range query parameters
 export function parseDateRange(query: any) {
-  try {
-    return dateRangeSchema.parse(query);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const details = error.issues.map((err: any) => ({
-        field: err.path.join('.'),
-        message: err.message
-      }));
-      
-      throw {
-        status: 400,
-        code: 'VALIDATION_ERROR',
-        message: 'Invalid date range parameters',
-        details
-      };
-    }
-    throw error;
-  }
+  return parseWith(dateRangeSchema, query, 'Invalid date range parameters');
+}
+
+// Helper function to parse and validate API key creation data
+export function parseCreateApiKey(body: any) {
+  return parseWith(createApiKeySchema, body);
+}
+
+// Helper function to parse and validate workspace creation data
+export function parseCreateWorkspace(body: any) {
+  return parseWith(createWorkspaceSchema, body);
+}
+
+// Helper function to parse and validate workspace member data
+export function parseMember(body: any) {
+  return parseWith(memberSchema, body);
+}
+
+// Helper function to parse and validate an Idempotency-Key header
+export function parseIdempotencyKey(header: string | undefined) {
+  return parseWith(idempotencyKeySchema, header, 'Invalid request data', 'Idempotency-Key');
+}
+
+// Helper function to parse and validate domain registration data
+export function parseCreateDomain(body: any) {
+  return parseWith(createDomainSchema, body);
+}
+
+// Helper function to parse and validate webhook creation data
+export function parseCreateWebhook(body: any) {
+  return parseWith(createWebhookSchema, body);
+}
+
+// Helper function to parse and validate webhook update data
+export function parseUpdateWebhook(body: any) {
+  return parseWith(updateWebhookSchema, body);
+}
+
+// Helper function to parse and validate delivery log query parameters
+export function parseListDeliveries(query: any) {
+  return parseWith(listDeliveriesQuerySchema, query, 'Invalid list parameters');
 }
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import type { LinkVariant, Prisma } from '@prisma/client';
+
+// Most A/B variants a single link may have
+export const MAX_VARIANTS_PER_LINK = 10;
+
+// How long a sticky visitor keeps their variant
+export const VARIANT_COOKIE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Variant as accepted by the API. Weights are relative (70/30 and 7/3 split
+// the same way); a weight of 0 pauses a variant. On update, variants with an
+// id keep their analytics history.
+export interface VariantInput {
+  id?: string;
+  targetUrl: string;
+  weight: number;
+}
+
+/**
+ * Pick a variant at random, in proportion to the weights. A sticky visitor's
+ * previous variant is kept while it still exists and is not paused.
+ * @param variants Variants of a link, in position order
+ * @param stickyId Variant the visitor was given before (from their cookie)
+ * @returns Chosen variant, or null if there are none with a weight
+ */
+export function pickVariant<T extends LinkVariant>(variants: T[], stickyId?: string): T | null {
+  const sticky = variants.find(variant => variant.id === stickyId && variant.weight > 0);
+  if (sticky) {
+    return sticky;
+  }
+  
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight === 0) {
+    return null;
+  }
+  
+  let roll = crypto.randomInt(totalWeight);
+  for (const variant of variants) {
+    if (roll < variant.weight) {
+      return variant;
+    }
+    roll -= variant.weight;
+  }
+  
+  return null;
+}
+
+/**
+ * Name of the cookie that keeps a visitor on one variant of a link
+ * @param linkId Link id
+ * @returns Cookie name
+ */
+export function variantCookieName(linkId: string): string {
+  return `variant_${linkId}`;
+}
+
+/**
+ * Read a cookie from a Cookie request header
+ * @param header Cookie header (may be undefined)
+ * @param name Cookie name
+ * @returns Decoded cookie value, or undefined if it is not set
+ */
+export function readCookie(header: string | undefined, name: string): string | undefined {
+  for (const pair of (header ?? '').split(';')) {
+    const index = pair.indexOf('=');
+    if (index !== -1 && pair.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * Build the nested Prisma writes that make a link's variants match the given
+ * list: variants with a known id are updated, the rest are created and any
+ * variant left out is deleted.
+ * @param variants Validated variants, in position order
+ * @param existingIds Ids of the link's current variants (empty when creating)
+ * @returns Nested write for Link.variants
+ */
+export function variantWrites(variants: VariantInput[], existingIds: string[] = []) {
+  const rows = variants.map(({ id, targetUrl, weight }, position) => ({ id, position, targetUrl, weight }));
+  const kept = rows.filter(row => row.id && existingIds.includes(row.id));
+  
+  return {
+    deleteMany: { id: { notIn: kept.map(row => row.id!) } },
+    update: kept.map(({ id, ...data }) => ({ where: { id }, data })),
+    create: rows.filter(row => !kept.includes(row)).map(({ id: _id, ...data }) => data)
+  } satisfies Prisma.LinkVariantUpdateManyWithoutLinkNestedInput;
+}
+
+/**
+ * Shape a stored variant for API responses
+ * @param variant LinkVariant row
+ * @returns Variant with its id, target and weight
+ */
+export function serializeVariant(variant: LinkVariant) {
+  return {
+    id: variant.id,
+    targetUrl: variant.targetUrl,
+    weight: variant.weight
+  };
+}
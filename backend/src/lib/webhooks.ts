@@ -0,0 +1,242 @@
+import { createHmac, randomBytes } from 'crypto';
+import type { LookupFunction } from 'net';
+import type { Prisma, Webhook, WebhookDelivery } from '@prisma/client';
+import { prisma } from '../db';
+import { fetchResource } from './fetcher';
+
+// Events a webhook can subscribe to
+export const WEBHOOK_EVENTS = ['link.created', 'link.updated', 'link.deleted', 'click.recorded'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Lifecycle of a delivery: pending until the receiver answers 2xx
+// (delivered) or every attempt has failed (failed)
+export const DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+export type DeliveryStatus = typeof DELIVERY_STATUSES[number];
+
+// Marks our signing secrets in logs and secret scanners
+const SECRET_PREFIX = 'whsec_';
+
+// Failed attempts are retried after 30s, 1m, 2m, ... (doubling) until the
+// last one, about an hour after the event
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30 * 1000;
+
+// Deliveries sent per run, how many at the same time, and how long a
+// receiver gets to answer
+const DELIVERY_BATCH_SIZE = 25;
+const DELIVERY_CONCURRENCY = 4;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Finished deliveries are kept in the log this long
+const DELIVERY_LOG_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Generate a webhook signing secret
+ * @returns Random secret with the whsec_ prefix
+ */
+export function generateWebhookSecret(): string {
+  return SECRET_PREFIX + randomBytes(24).toString('base64url');
+}
+
+/**
+ * Split a stored comma-separated event list
+ * @param events Value of Webhook.events
+ * @returns Event names
+ */
+export function parseEvents(events: string): WebhookEvent[] {
+  return events.split(',').filter(Boolean) as WebhookEvent[];
+}
+
+/**
+ * Sign a webhook body. Receivers recompute the HMAC over "<t>.<body>" with
+ * their secret and compare; the timestamp lets them reject old replays.
+ * @param secret Webhook signing secret
+ * @param timestamp Unix time in seconds of the attempt
+ * @param body Exact request body
+ * @returns X-Webhook-Signature header value ("t=<timestamp>,v1=<hex digest>")
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Compute how long to wait before retrying a failed delivery
+ * @param attempts Attempts made so far (at least 1)
+ * @returns Delay in milliseconds
+ */
+export function retryDelay(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+/**
+ * Add an event to the outbox of every active webhook of the workspace that
+ * subscribed to it. Nothing is sent here, so callers (such as the redirect
+ * handler) never wait for a receiver; pass the transaction the change is made
+ * in so the event is only queued if the change is committed.
+ * @param workspaceId Workspace the event happened in
+ * @param event Event name
+ * @param items Payload data, one event per item
+ * @param db Prisma client or transaction client (default: shared client)
+ * @returns Number of deliveries queued
+ */
+export async function enqueueWebhookEvents(
+  workspaceId: string,
+  event: WebhookEvent,
+  items: object[],
+  db: Prisma.TransactionClient = prisma
+): Promise<number> {
+  if (items.length === 0) {
+    return 0;
+  }
+  
+  const webhooks = await db.webhook.findMany({
+    where: { workspaceId, active: true },
+    select: { id: true, events: true }
+  });
+  const subscribed = webhooks.filter(webhook => parseEvents(webhook.events).includes(event));
+  if (subscribed.length === 0) {
+    return 0;
+  }
+  
+  const occurredAt = new Date();
+  const { count } = await db.webhookDelivery.createMany({
+    data: subscribed.flatMap(webhook => items.map(data => ({
+      webhookId: webhook.id,
+      event,
+      payload: JSON.stringify({ event, occurredAt, data })
+    })))
+  });
+  
+  return count;
+}
+
+// Helper function to send one delivery and record the outcome: delivered on
+// a 2xx answer, otherwise retried later or given up after MAX_ATTEMPTS.
+// Redirects are not followed, so a moved receiver shows up in the log.
+async function attemptDelivery(delivery: WebhookDelivery & { webhook: Webhook }, lookup?: LookupFunction) {
+  // Taken per attempt rather than per run: later deliveries of a batch can go
+  // out many seconds after it started, and receivers reject stale signatures
+  const attemptedAt = new Date();
+  const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  
+  try {
+    const response = await fetchResource(new URL(delivery.webhook.url), {
+      method: 'POST',
+      body: delivery.payload,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Signature': signPayload(delivery.webhook.secret, timestamp, delivery.payload)
+      },
+      maxBytes: 1, // The answer's status is all that matters
+      maxRedirects: 0,
+      timeoutMs: DELIVERY_TIMEOUT_MS,
+      userAgent: 'LinkShortener-Webhooks/1.0',
+      lookup
+    });
+    statusCode = response.status;
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+  }
+  
+  const attempts = delivery.attempts + 1;
+  const delivered = statusCode !== null && statusCode >= 200 && statusCode < 300;
+  const status: DeliveryStatus = delivered ? 'delivered' : attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+  
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      attempts,
+      lastAttemptAt: attemptedAt,
+      lastStatusCode: statusCode,
+      lastError: delivered ? null : error ?? `Receiver answered ${statusCode}`,
+      deliveredAt: delivered ? new Date() : null,
+      ...(status === 'pending' && {
+        nextAttemptAt: new Date(attemptedAt.getTime() + retryDelay(attempts))
+      })
+    }
+  });
+}
+
+/**
+ * Send pending deliveries that are due, oldest first. A run is capped at one
+ * batch; the next run continues with the rest.
+ * @param options Reference time deciding which deliveries are due, and host
+ *   name resolution (for tests)
+ * @returns Number of deliveries attempted
+ */
+export async function deliverDueWebhooks(options: { now?: Date; lookup?: LookupFunction } = {}): Promise<number> {
+  const now = options.now ?? new Date();
+  
+  const queue = await prisma.webhookDelivery.findMany({
+    where: {
+      status: 'pending',
+      nextAttemptAt: { lte: now },
+      webhook: { active: true }
+    },
+    include: { webhook: true },
+    orderBy: [{ nextAttemptAt: 'asc' }, { createdAt: 'asc' }],
+    take: DELIVERY_BATCH_SIZE
+  });
+  const total = queue.length;
+  
+  // A few workers take deliveries off the queue until it is empty
+  await Promise.all(Array.from({ length: DELIVERY_CONCURRENCY }, async () => {
+    for (let delivery = queue.shift(); delivery; delivery = queue.shift()) {
+      try {
+        await attemptDelivery(delivery, options.lookup);
+      } catch (error: any) {
+        // Webhooks deleted during the run take their deliveries with them
+        if (error.code !== 'P2025') {
+          throw error;
+        }
+      }
+    }
+  }));
+  
+  return total;
+}
+
+/**
+ * Remove delivered and failed deliveries older than the log retention period
+ * @param now Reference time (default: current time)
+ * @returns Number of deliveries removed
+ */
+export async function purgeOldDeliveries(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.webhookDelivery.deleteMany({
+    where: {
+      status: { in: ['delivered', 'failed'] },
+      createdAt: { lt: new Date(now.getTime() - DELIVERY_LOG_RETENTION_MS) }
+    }
+  });
+  
+  return count;
+}
+
+/**
+ * Shape a delivery for the delivery log
+ * @param delivery Delivery row
+ * @returns Delivery with its payload parsed
+ */
+export function serializeDelivery(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    status: delivery.status as DeliveryStatus,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.status === 'pending' ? delivery.nextAttemptAt : null,
+    lastAttemptAt: delivery.lastAttemptAt,
+    lastStatusCode: delivery.lastStatusCode,
+    lastError: delivery.lastError,
+    deliveredAt: delivery.deliveredAt,
+    createdAt: delivery.createdAt,
+    payload: JSON.parse(delivery.payload)
+  };
+}
@@ -0,0 +1,26 @@
+import type { ApiKeyScope } from './keys';
+
+// Workspace that pre-existing links and keys were migrated into
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// Member roles, from least to most privileged
+export const ROLES = ['viewer', 'editor', 'owner'] as const;
+
+export type Role = typeof ROLES[number];
+
+// What each role may do; an API key can only use scopes its user's role allows
+const ROLE_SCOPES: Record<Role, ApiKeyScope[]> = {
+  viewer: ['links:read', 'analytics:read'],
+  editor: ['links:read', 'analytics:read', 'links:write'],
+  owner: ['links:read', 'analytics:read', 'links:write', 'keys:manage', 'workspace:manage']
+};
+
+/**
+ * Check whether a workspace role permits a scope
+ * @param role Membership role
+ * @param scope API key scope
+ * @returns True if members with this role may use the scope
+ */
+export function roleAllows(role: Role, scope: ApiKeyScope): boolean {
+  return ROLE_SCOPES[role].includes(scope);
+}
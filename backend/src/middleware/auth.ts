@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { authenticateApiKey, AuthenticatedKey, ApiKeyScope } from '../lib/keys';
+import { roleAllows } from '../lib/workspaces';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireApiKey for management API requests
+      apiKey?: AuthenticatedKey;
+    }
+  }
+}
+
+// Authenticate management API requests with an "Authorization: Bearer <key>" header
+export async function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const match = req.get('Authorization')?.match(/^Bearer\s+(\S+)$/i);
+    const apiKey = match && await authenticateApiKey(match[1]);
+    
+    if (!apiKey) {
+      res.set('WWW-Authenticate', 'Bearer');
+      throw {
+        status: 401,
+        code: 'UNAUTHORIZED',
+        message: match ? 'Invalid or revoked API key' : 'Missing API key in Authorization header'
+      };
+    }
+    
+    req.apiKey = apiKey;
+    next();
+    
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Reject requests whose API key lacks the given scope or whose user's
+// workspace role does not allow it
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKey?.scopes.includes(scope)) {
+      return next({
+        status: 403,
+        code: 'FORBIDDEN',
+        message: `API key is missing the ${scope} scope`
+      });
+    }
+    
+    if (!roleAllows(req.apiKey.role, scope)) {
+      return next({
+        status: 403,
+        code: 'FORBIDDEN',
+        message: `The ${req.apiKey.role} role does not allow ${scope}`
+      });
+    }
+    
+    next();
+  };
+}
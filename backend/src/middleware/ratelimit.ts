@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import { Env } from '../env';
+import { createMemoryStore, RateLimitStore } from '../lib/ratelimit';
+
+export interface RateLimitOptions {
+  name: string; // Separates budgets that share a store
+  limit: number; // Requests allowed per window (0 disables the limiter)
+  windowMs: number;
+  key: (req: Request) => string; // Who the budget belongs to
+  store?: RateLimitStore;
+}
+
+// Limit requests per key in fixed windows, answering 429 with Retry-After
+export function rateLimit({ name, limit, windowMs, key, store = createMemoryStore() }: RateLimitOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (limit <= 0) {
+      return next();
+    }
+    
+    try {
+      const now = Date.now();
+      const { count, resetAt } = await store.hit(`${name}:${key(req)}`, windowMs, now);
+      const resetSeconds = Math.max(1, Math.ceil((resetAt - now) / 1000));
+      
+      res.set('RateLimit-Limit', String(limit));
+      res.set('RateLimit-Remaining', String(Math.max(0, limit - count)));
+      res.set('RateLimit-Reset', String(resetSeconds));
+      
+      if (count > limit) {
+        res.set('Retry-After', String(resetSeconds));
+        throw {
+          status: 429,
+          code: 'RATE_LIMITED',
+          message: `Too many requests, retry in ${resetSeconds} seconds`
+        };
+      }
+      
+      next();
+      
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Shared by the limiters below; swap for a shared store when running several instances
+const store = createMemoryStore();
+
+// Management API budget per client IP. Runs before authentication so
+// requests with a missing or invalid key (e.g. key guessing) are throttled too.
+export const apiClientRateLimit = rateLimit({
+  name: 'api-ip',
+  limit: Number(Env.API_IP_RATE_LIMIT),
+  windowMs: Number(Env.API_RATE_WINDOW_SECONDS) * 1000,
+  key: (req) => `ip:${req.ip}`,
+  store
+});
+
+// Management API budget, per API key (runs after requireApiKey)
+export const apiRateLimit = rateLimit({
+  name: 'api',
+  limit: Number(Env.API_RATE_LIMIT),
+  windowMs: Number(Env.API_RATE_WINDOW_SECONDS) * 1000,
+  key: (req) => `key:${req.apiKey!.id}`,
+  store
+});
+
+// Redirect budget, per client IP
+export const redirectRateLimit = rateLimit({
+  name: 'redirect',
+  limit: Number(Env.REDIRECT_RATE_LIMIT),
+  windowMs: Number(Env.REDIRECT_RATE_WINDOW_SECONDS) * 1000,
+  key: (req) => `ip:${req.ip}`,
+  store
+});
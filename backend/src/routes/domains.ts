@@ -0,0 +1,179 @@
+import express, { Request, Response, NextFunction } from 'express';
+import type { Domain } from '@prisma/client';
+import { parseCreateDomain } from '../lib/validators';
+import { DEFAULT_DOMAIN_ID, generateVerificationToken, isShortenerHost, verificationRecord, verifyDomain } from '../lib/domains';
+import { requireScope } from '../middleware/auth';
+import { prisma } from '../db';
+
+const router = express.Router();
+
+// Helper function to shape a domain for responses (the default domain has no
+// host). Unverified domains carry the TXT record that still has to be published.
+function serializeDomain(domain: Domain) {
+  const isDefault = domain.id === DEFAULT_DOMAIN_ID;
+  const verified = isDefault || domain.verifiedAt !== null;
+  
+  return {
+    id: domain.id,
+    host: domain.host,
+    isDefault,
+    verified,
+    verification: !verified && domain.host && domain.verificationToken
+      ? verificationRecord({ host: domain.host, verificationToken: domain.verificationToken })
+      : null,
+    createdAt: domain.createdAt
+  };
+}
+
+// Helper function to find a branded domain of the caller's workspace (404 otherwise)
+async function findDomainOrThrow(id: string, workspaceId: string) {
+  const domain = await prisma.domain.findFirst({
+    where: { id, workspaceId }
+  });
+  
+  if (!domain) {
+    throw {
+      status: 404,
+      code: 'NOT_FOUND',
+      message: 'Domain not found'
+    };
+  }
+  
+  return domain;
+}
+
+// GET /api/v1/domains - List the domains the workspace can create links on
+router.get('/', requireScope('links:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const domains = await prisma.domain.findMany({
+      where: {
+        OR: [
+          { id: DEFAULT_DOMAIN_ID },
+          { workspaceId: req.apiKey!.workspaceId }
+        ]
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+    
+    res.json({
+      domains: domains.map(serializeDomain)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/domains - Register a branded domain for the workspace. It serves
+// redirects once verified (see POST /api/v1/domains/:id/verify).
+router.post('/', requireScope('workspace:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { host } = parseCreateDomain(req.body);
+    
+    if (isShortenerHost(host, req.get('Host'))) {
+      throw {
+        status: 400,
+        code: 'DOMAIN_RESERVED',
+        message: 'The shortener itself is served on this host'
+      };
+    }
+    
+    // Pending claims of other workspaces don't block the host until one is verified
+    const verified = await prisma.domain.findFirst({
+      where: { host, verifiedAt: { not: null } },
+      select: { id: true }
+    });
+    
+    if (verified) {
+      throw {
+        status: 409,
+        code: 'DOMAIN_TAKEN',
+        message: 'Domain is already registered'
+      };
+    }
+    
+    try {
+      const domain = await prisma.domain.create({
+        data: {
+          host,
+          workspaceId: req.apiKey!.workspaceId,
+          verificationToken: generateVerificationToken()
+        }
+      });
+      
+      return res.status(201).json({
+        domain: serializeDomain(domain)
+      });
+      
+    } catch (dbError: any) {
+      // The workspace already has a claim on this host
+      if (dbError.code === 'P2002' && dbError.meta?.target?.includes('host')) {
+        throw {
+          status: 409,
+          code: 'DOMAIN_TAKEN',
+          message: 'Domain is already registered'
+        };
+      }
+      
+      throw dbError;
+    }
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/domains/:id/verify - Check the domain's TXT record so it starts
+// serving redirects
+router.post('/:id/verify', requireScope('workspace:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const domain = await findDomainOrThrow(req.params.id, req.apiKey!.workspaceId);
+    
+    res.json({
+      domain: serializeDomain(await verifyDomain(domain))
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/v1/domains/:id - Remove a branded domain that no longer has links
+router.delete('/:id', requireScope('workspace:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    
+    const domain = await prisma.domain.findFirst({
+      where: { id, workspaceId: req.apiKey!.workspaceId },
+      include: { _count: { select: { links: true } } }
+    });
+    
+    if (!domain) {
+      throw {
+        status: 404,
+        code: 'NOT_FOUND',
+        message: 'Domain not found'
+      };
+    }
+    
+    // Deleting would take its links (including archived ones) with it
+    if (domain._count.links > 0) {
+      throw {
+        status: 409,
+        code: 'DOMAIN_IN_USE',
+        message: 'Domain still has links; delete or move them first'
+      };
+    }
+    
+    await prisma.domain.delete({
+      where: { id }
+    });
+    
+    res.status(204).send();
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
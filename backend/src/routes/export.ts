@@ -0,0 +1,126 @@
+import express, { Request, Response, NextFunction } from 'express';
+import type { Click, Link } from '@prisma/client';
+import { parseExportQuery } from '../lib/validators';
+import { normalizeRange } from '../lib/dates';
+import { inBatches, writeExport, ExportColumn, ExportFormat } from '../lib/export';
+import { requireScope } from '../middleware/auth';
+import { prisma } from '../db';
+
+const router = express.Router();
+
+const LINK_COLUMNS: ExportColumn<Link>[] = [
+  { name: 'id', value: link => link.id },
+  { name: 'slug', value: link => link.slug },
+  { name: 'targetUrl', value: link => link.targetUrl },
+  { name: 'createdAt', value: link => link.createdAt },
+  { name: 'archivedAt', value: link => link.archivedAt },
+  { name: 'expiresAt', value: link => link.expiresAt },
+  { name: 'maxClicks', value: link => link.maxClicks },
+  { name: 'clickCount', value: link => link.clickCount }
+];
+
+type ClickWithSlug = Click & { link: { slug: string } };
+
+const CLICK_COLUMNS: ExportColumn<ClickWithSlug>[] = [
+  { name: 'id', value: click => click.id },
+  { name: 'linkId', value: click => click.linkId },
+  { name: 'slug', value: click => click.link.slug },
+  { name: 'tsUtc', value: click => click.tsUtc },
+  { name: 'userAgent', value: click => click.userAgent },
+  { name: 'ruleId', value: click => click.ruleId },
+  { name: 'variantId', value: click => click.variantId },
+  { name: 'isBot', value: click => click.isBot }
+];
+
+// Helper function to set download headers for an export file
+function setExportHeaders(res: Response, format: ExportFormat, name: string) {
+  const extension = format === 'csv' ? 'csv' : 'ndjson';
+  const contentType = format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8';
+  const date = new Date().toISOString().split('T')[0];
+  
+  res.status(200);
+  res.set('Content-Type', contentType);
+  res.set('Content-Disposition', `attachment; filename="${name}-${date}.${extension}"`);
+}
+
+// Helper function to report errors that happen after streaming started
+function handleStreamError(error: unknown, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    // Too late for a JSON error envelope - abort so the client sees a broken download
+    console.error('Export failed mid-stream:', error);
+    res.destroy(error instanceof Error ? error : undefined);
+    return;
+  }
+  next(error);
+}
+
+// GET /api/v1/export/links - Stream the workspace's links (including archived) as CSV or NDJSON
+router.get('/links', requireScope('links:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format } = parseExportQuery(req.query);
+    
+    setExportHeaders(res, format, 'links');
+    
+    const batches = inBatches((cursor, take) => prisma.link.findMany({
+      where: { workspaceId: req.apiKey!.workspaceId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    }));
+    
+    await writeExport(res, format, LINK_COLUMNS, batches);
+    
+  } catch (error) {
+    handleStreamError(error, res, next);
+  }
+});
+
+// GET /api/v1/export/clicks - Stream the workspace's raw clicks in a date range, optionally for one link
+router.get('/clicks', requireScope('analytics:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format, linkId, ...dateRange } = parseExportQuery(req.query);
+    const [fromISO, toISO] = normalizeRange(dateRange);
+    const { workspaceId } = req.apiKey!;
+    
+    if (linkId) {
+      const link = await prisma.link.findFirst({
+        where: { id: linkId, workspaceId },
+        select: { id: true }
+      });
+      
+      if (!link) {
+        throw {
+          status: 404,
+          code: 'NOT_FOUND',
+          message: 'Link not found'
+        };
+      }
+    }
+    
+    setExportHeaders(res, format, 'clicks');
+    
+    const batches = inBatches((cursor, take) => prisma.click.findMany({
+      where: {
+        link: { workspaceId },
+        ...(linkId && { linkId }),
+        tsUtc: {
+          gte: new Date(fromISO),
+          lte: new Date(toISO)
+        }
+      },
+      include: {
+        link: { select: { slug: true } }
+      },
+      orderBy: [{ tsUtc: 'asc' }, { id: 'asc' }],
+      take,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    }));
+    
+    await writeExport(res, format, CLICK_COLUMNS, batches);
+    
+  } catch (error) {
+    handleStreamError(error, res, next);
+  }
+});
+
+export default router;
@@ -0,0 +1,118 @@
+import express, { Request, Response, NextFunction } from 'express';
+import type { ApiKey } from '@prisma/client';
+import { parseCreateApiKey } from '../lib/validators';
+import { createApiKey, parseScopes } from '../lib/keys';
+import { roleAllows, Role } from '../lib/workspaces';
+import { requireScope } from '../middleware/auth';
+import { prisma } from '../db';
+
+const router = express.Router();
+
+// Every key management route needs the keys:manage scope
+router.use(requireScope('keys:manage'));
+
+// Helper function to shape an API key for responses (never includes the hash)
+function serializeApiKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    userId: apiKey.userId,
+    prefix: apiKey.prefix,
+    scopes: parseScopes(apiKey.scopes),
+    createdAt: apiKey.createdAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt
+  };
+}
+
+// POST /api/v1/keys - Create an API key for a workspace member (the full key is only returned here)
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, scopes, userId = req.apiKey!.userId } = parseCreateApiKey(req.body);
+    const { workspaceId } = req.apiKey!;
+    
+    const membership = await prisma.membership.findUnique({
+      where: { userId_workspaceId: { userId, workspaceId } }
+    });
+    
+    if (!membership) {
+      throw {
+        status: 404,
+        code: 'NOT_FOUND',
+        message: 'Member not found'
+      };
+    }
+    
+    // A key can never do more than its user's role allows
+    const excess = scopes.filter(scope => !roleAllows(membership.role as Role, scope));
+    if (excess.length > 0) {
+      throw {
+        status: 400,
+        code: 'VALIDATION_ERROR',
+        message: `The ${membership.role} role does not allow: ${excess.join(', ')}`,
+        details: [{ field: 'scopes', message: 'Scopes exceed the member\'s role' }]
+      };
+    }
+    
+    const { apiKey, key } = await createApiKey(name, scopes, { userId, workspaceId });
+    
+    res.status(201).json({
+      apiKey: serializeApiKey(apiKey),
+      key
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/keys - List the workspace's API keys, newest first, including revoked ones
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { workspaceId: req.apiKey!.workspaceId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    });
+    
+    res.json({
+      apiKeys: apiKeys.map(serializeApiKey)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/v1/keys/:id - Revoke an API key; it stops working immediately
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { workspaceId } = req.apiKey!;
+    
+    // Keep the original revocation time if the key is already revoked
+    await prisma.apiKey.updateMany({
+      where: { id, workspaceId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    
+    // Keys of other workspaces are reported as missing
+    const apiKey = await prisma.apiKey.findFirst({ where: { id, workspaceId } });
+    
+    if (!apiKey) {
+      throw {
+        status: 404,
+        code: 'NOT_FOUND',
+        message: 'API key not found'
+      };
+    }
+    
+    res.json({
+      apiKey: serializeApiKey(apiKey)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
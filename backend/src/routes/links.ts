@@ -1,16 +1,34 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { parseCreateLink, parseDateRange } from '../lib/validators';
-import { randomSlug } from '../lib/slug';
+import { parseCreateLink, parseIdempotencyKey, parseUpdateLink, parseListLinks, parseImportOptions, parseDateRange, parseQrOptions } from '../lib/validators';
 import { normalizeRange } from '../lib/dates';
+import { purgeDate } from '../lib/trash';
+import { insertLink, linkTargetUrls, LinkWithTags, LINK_INCLUDE } from '../lib/links';
+import { ensureTags } from '../lib/tags';
+import { readImportRows, importLinks } from '../lib/import';
+import { hashRequest, withIdempotencyKey } from '../lib/idempotency';
+import { checkDestination } from '../lib/destinations';
+import { findDomainIdOrThrow, listShortenerHosts } from '../lib/domains';
+import { hashPassword } from '../lib/password';
+import { utmColumns, linkUtm } from '../lib/targets';
+import { ogColumns, linkOpenGraph } from '../lib/opengraph';
+import { ruleRows, serializeRule } from '../lib/rules';
+import { variantWrites, serializeVariant } from '../lib/variants';
+import { checkLinkHealth, serializeHealth } from '../lib/health';
+import { enqueueWebhookEvents } from '../lib/webhooks';
+import { encodeQr } from '../lib/qr';
+import { renderQrSvg, renderQrPng } from '../lib/qrimage';
+import { requireScope } from '../middleware/auth';
 import { prisma } from '../db';
+import type { Prisma } from '@prisma/client';
 
 const router = express.Router();
 
-// Helper function to check if a link exists
-async function ensureLinkExists(id: string) {
-  const link = await prisma.link.findUnique({
-    where: { id },
-    select: { id: true }
+// Helper function to check if a link exists in the caller's workspace.
+// Links of other workspaces get the same 404 so their existence isn't leaked.
+async function ensureLinkExists(id: string, workspaceId: string) {
+  const link = await prisma.link.findFirst({
+    where: { id, workspaceId },
+    select: { id: true, archivedAt: true }
   });
   
   if (!link) {
@@ -24,100 +42,454 @@ async function ensureLinkExists(id: string) {
   return link;
 }
 
+// Helper function to build the public short URL of a link. Branded domains
+// are served over https; default-domain links use the host of the request.
+function buildShortUrl(req: Request, link: { slug: string; domain: { host: string | null } }) {
+  if (link.domain.host) {
+    return `https://${link.domain.host}/r/${link.slug}`;
+  }
+  
+  const protocol = req.get('X-Forwarded-Proto') || (req.secure ? 'https' : 'http');
+  const host = req.get('Host') || 'localhost:3000';
+  return `${protocol}://${host}/r/${link.slug}`;
+}
+
+// Helper function to shape a link for create/update responses
+function serializeLink(req: Request, link: LinkWithTags) {
+  return {
+    id: link.id,
+    slug: link.slug,
+    targetUrl: link.targetUrl,
+    shortUrl: buildShortUrl(req, link),
+    domain: link.domain.host,
+    createdAt: link.createdAt,
+    expiresAt: link.expiresAt,
+    maxClicks: link.maxClicks,
+    passwordProtected: link.passwordHash !== null,
+    redirectType: link.redirectType,
+    forwardQuery: link.forwardQuery,
+    utm: linkUtm(link),
+    og: linkOpenGraph(link),
+    rules: link.rules.map(serializeRule),
+    variants: link.variants.map(serializeVariant),
+    stickyVariants: link.stickyVariants,
+    forcePreview: link.forcePreview,
+    health: serializeHealth(link.health),
+    tags: link.tags.map(tag => tag.name).sort()
+  };
+}
+
 // POST /api/v1/links - Create a new link
-router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', requireScope('links:write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     // Validate request body
-    const { targetUrl, slug: userSlug } = parseCreateLink(req.body);
+    const input = parseCreateLink(req.body);
+    const shortenerHosts = await listShortenerHosts(req.get('Host'));
+    linkTargetUrls(input).forEach(url => checkDestination(url, shortenerHosts));
+    const idempotencyKey = parseIdempotencyKey(req.get('Idempotency-Key'));
+    const { workspaceId } = req.apiKey!;
     
-    // Use provided slug or generate a new one
-    let slug = userSlug || randomSlug();
-    const wasSlugProvided = !!userSlug;
+    if (!idempotencyKey) {
+      // Create with a generated slug if none was provided (409 if the given one
+      // is taken); the webhook event is queued with the link or not at all
+      const body = await prisma.$transaction(async (tx) => {
+        const link = await insertLink(input, workspaceId, tx);
+        const body = { link: serializeLink(req, link) };
+        await enqueueWebhookEvents(workspaceId, 'link.created', [body], tx);
+        return body;
+      });
+      
+      return res.status(201).json(body);
+    }
     
-    // Attempt to create the link with retry logic for generated slugs
-    let retries = 0;
-    const maxRetries = 3;
+    // Retries with the same key get the original response instead of a second
+    // link (and webhooks don't hear about it twice)
+    const { statusCode, body, replayed } = await withIdempotencyKey(workspaceId, idempotencyKey, hashRequest(input), async (tx) => {
+      const link = await insertLink(input, workspaceId, tx);
+      const body = { link: serializeLink(req, link) };
+      await enqueueWebhookEvents(workspaceId, 'link.created', [body], tx);
+      return { statusCode: 201, body };
+    });
     
-    while (retries <= maxRetries) {
-      try {
-        const link = await prisma.link.create({
-          data: {
-            slug,
-            targetUrl
-          }
-        });
-        
-        // Build short URL from request
-        const protocol = req.get('X-Forwarded-Proto') || (req.secure ? 'https' : 'http');
-        const host = req.get('Host') || 'localhost:3000';
-        const shortUrl = `${protocol}://${host}/r/${slug}`;
-        
-        // Return successful response
-        return res.status(201).json({
-          link: {
-            id: link.id,
-            slug: link.slug,
-            targetUrl: link.targetUrl,
-            shortUrl,
-            createdAt: link.createdAt
-          }
-        });
-        
-      } catch (dbError: any) {
-        // Check if it's a unique constraint violation (P2002)
-        if (dbError.code === 'P2002' && dbError.meta?.target?.includes('slug')) {
-          if (wasSlugProvided) {
-            // User provided slug is taken - return 409
-            return res.status(409).json({
-              error: {
-                code: 'SLUG_TAKEN',
-                message: 'Slug already exists'
-              }
-            });
-          } else {
-            // Generated slug collision - retry with new slug
-            if (retries < maxRetries) {
-              slug = randomSlug();
-              retries++;
-              continue;
-            } else {
-              // Max retries reached - return 500
-              return res.status(500).json({
-                error: {
-                  code: 'INTERNAL',
-                  message: 'Unable to generate unique slug after multiple attempts'
-                }
-              });
-            }
-          }
+    if (replayed) {
+      res.set('Idempotent-Replayed', 'true');
+    }
+    res.status(statusCode).json(body);
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/links/import - Bulk create links from CSV or a JSON array
+router.post('/import', requireScope('links:write'), express.text({ type: 'text/csv', limit: '5mb' }), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const options = parseImportOptions(req.query);
+    const rows = readImportRows(req.body);
+    
+    const { workspaceId } = req.apiKey!;
+    const results = await importLinks(rows, options, workspaceId, await listShortenerHosts(req.get('Host')), (link, tx) =>
+      enqueueWebhookEvents(workspaceId, 'link.created', [{ link: serializeLink(req, link) }], tx)
+    );
+    const failed = results.filter(result => result.status === 'error');
+    
+    // All-or-nothing imports report failing rows in the error envelope
+    if (options.atomic && failed.length > 0) {
+      return res.status(422).json({
+        error: {
+          code: 'IMPORT_FAILED',
+          message: 'No links were imported because some rows failed',
+          details: failed.map(({ row, error }) => ({ row, ...error }))
         }
-        
-        // Other database errors - let error handler deal with it
-        throw dbError;
-      }
+      });
     }
     
+    res.json({
+      dryRun: options.dryRun,
+      atomic: options.atomic,
+      summary: {
+        total: results.length,
+        created: results.filter(result => result.status === 'created').length,
+        failed: failed.length
+      },
+      results: results.map(({ link, ...result }) => ({
+        ...result,
+        ...(link && { link: serializeLink(req, link) })
+      }))
+    });
+    
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/v1/links - List all links
-router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+// Sort keys accepted by GET /api/v1/links mapped to Link columns
+const SORT_COLUMNS = {
+  createdAt: 'createdAt',
+  slug: 'slug',
+  clicks: 'clickCount'
+} as const;
+
+// Default direction per sort key (newest / A-Z / most clicked first)
+const DEFAULT_ORDER = {
+  createdAt: 'desc',
+  slug: 'asc',
+  clicks: 'desc'
+} as const;
+
+// GET /api/v1/links - List the workspace's active (non-archived) links, paginated
+router.get('/', requireScope('links:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { limit, cursor, q, tag, sort, order } = parseListLinks(req.query);
+    const direction = order ?? DEFAULT_ORDER[sort];
+    
+    const where: Prisma.LinkWhereInput = {
+      workspaceId: req.apiKey!.workspaceId,
+      archivedAt: null,
+      ...(q && {
+        OR: [
+          { slug: { contains: q } },
+          { targetUrl: { contains: q } }
+        ]
+      }),
+      ...(tag && {
+        tags: { some: { name: tag } }
+      })
+    };
+    
+    // Fetch one extra row to know whether there is a next page. The id
+    // tie-breaker keeps the order stable so cursors never skip or repeat rows.
+    const [rows, total] = await Promise.all([
+      prisma.link.findMany({
+        where,
+        select: {
+          id: true,
+          slug: true,
+          targetUrl: true,
+          createdAt: true,
+          domain: {
+            select: { host: true }
+          },
+          tags: {
+            select: { name: true },
+            orderBy: { name: 'asc' }
+          },
+          health: true
+        },
+        orderBy: [
+          { [SORT_COLUMNS[sort]]: direction },
+          { id: direction }
+        ],
+        take: limit + 1,
+        ...(cursor && {
+          cursor: { id: cursor },
+          skip: 1
+        })
+      }),
+      prisma.link.count({ where })
+    ]);
+    
+    const hasMore = rows.length > limit;
+    const links = (hasMore ? rows.slice(0, limit) : rows)
+      .map(({ domain, tags, health, ...link }) => ({
+        ...link,
+        domain: domain.host,
+        shortUrl: buildShortUrl(req, { slug: link.slug, domain }),
+        tags: tags.map(({ name }) => name),
+        health: serializeHealth(health)
+      }));
+    
+    res.json({
+      links,
+      total,
+      nextCursor: hasMore ? links[links.length - 1].id : null
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/links/trash - List archived links with their purge date
+router.get('/trash', requireScope('links:read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const links = await prisma.link.findMany({
+      where: {
+        workspaceId: req.apiKey!.workspaceId,
+        archivedAt: { not: null }
+      },
       select: {
         id: true,
         slug: true,
         targetUrl: true,
-        createdAt: true
+        createdAt: true,
+        archivedAt: true
       },
       orderBy: {
-        createdAt: 'desc'
+        archivedAt: 'desc'
+      }
+    });
+    
+    res.json({
+      links: links.map(link => ({
+        ...link,
+        purgeAt: purgeDate(link.archivedAt!)
+      }))
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/v1/links/:id - Update fields of an existing link (tags replace the current set)
+router.patch('/:id', requireScope('links:write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    
+    // Validate request body before touching the database
+    const { password, tags, domain, utm, og, rules, variants, ...data } = parseUpdateLink(req.body);
+    const targetUrls = linkTargetUrls({ targetUrl: data.targetUrl, rules, variants });
+    if (targetUrls.length > 0) {
+      const shortenerHosts = await listShortenerHosts(req.get('Host'));
+      targetUrls.forEach(url => checkDestination(url, shortenerHosts));
+    }
+    
+    // Ensure link exists
+    const { workspaceId } = req.apiKey!;
+    const existing = await ensureLinkExists(id, workspaceId);
+    if (existing.archivedAt) {
+      throw {
+        status: 409,
+        code: 'LINK_ARCHIVED',
+        message: 'Restore the link from the trash before editing it'
+      };
+    }
+    
+    // Variants sent with their id are updated in place to keep their clicks
+    const existingVariantIds = variants
+      ? (await prisma.linkVariant.findMany({ where: { linkId: id }, select: { id: true } })).map(variant => variant.id)
+      : [];
+    
+    // A new target has to be checked again, so its old health result goes
+    const staleHealth = data.targetUrl !== undefined && await prisma.linkHealth.count({ where: { linkId: id } }) > 0;
+    
+    try {
+      const body = await prisma.$transaction(async (tx) => {
+        const link = await tx.link.update({
+          where: { id },
+          data: {
+            ...data,
+            // null removes the password, undefined leaves it unchanged
+            passwordHash: password === undefined ? undefined : password && hashPassword(password),
+            ...(utm !== undefined && utmColumns(utm)),
+            ...(og !== undefined && ogColumns(og)),
+            ...(rules && {
+              rules: { deleteMany: {}, create: ruleRows(rules) }
+            }),
+            ...(variants && {
+              variants: variantWrites(variants, existingVariantIds)
+            }),
+            ...(staleHealth && {
+              health: { delete: true }
+            }),
+            ...(tags && {
+              tags: { set: await ensureTags(tags, tx) }
+            }),
+            // Moving to another domain keeps the slug (409 if it is taken there)
+            ...(domain !== undefined && {
+              domainId: await findDomainIdOrThrow(domain, workspaceId, tx)
+            })
+          },
+          include: LINK_INCLUDE
+        });
+        const body = { link: serializeLink(req, link) };
+        await enqueueWebhookEvents(workspaceId, 'link.updated', [body], tx);
+        return body;
+      });
+      
+      return res.json(body);
+      
+    } catch (dbError: any) {
+      // New slug collides with another link on the domain - return 409
+      if (dbError.code === 'P2002' && dbError.meta?.target?.includes('slug')) {
+        return res.status(409).json({
+          error: {
+            code: 'SLUG_TAKEN',
+            message: 'Slug already exists'
+          }
+        });
       }
+      
+      throw dbError;
+    }
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/v1/links/:id - Move a link to the trash (soft delete)
+router.delete('/:id', requireScope('links:write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    
+    // Ensure link exists
+    await ensureLinkExists(id, req.apiKey!.workspaceId);
+    
+    const body = await prisma.$transaction(async (tx) => {
+      // Keep the original archive time if the link is already in the trash
+      const { count: archived } = await tx.link.updateMany({
+        where: { id, archivedAt: null },
+        data: { archivedAt: new Date() }
+      });
+      
+      const link = await tx.link.findUniqueOrThrow({
+        where: { id },
+        select: {
+          id: true,
+          slug: true,
+          targetUrl: true,
+          createdAt: true,
+          archivedAt: true
+        }
+      });
+      
+      const body = {
+        link: {
+          ...link,
+          purgeAt: purgeDate(link.archivedAt!)
+        }
+      };
+      if (archived > 0) {
+        await enqueueWebhookEvents(req.apiKey!.workspaceId, 'link.deleted', [body], tx);
+      }
+      return body;
     });
     
-    res.json({ links });
+    res.json(body);
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/links/:id/restore - Restore an archived link from the trash
+router.post('/:id/restore', requireScope('links:write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    
+    // Ensure link exists and is in the trash
+    const existing = await ensureLinkExists(id, req.apiKey!.workspaceId);
+    if (!existing.archivedAt) {
+      throw {
+        status: 409,
+        code: 'NOT_ARCHIVED',
+        message: 'Link is not in the trash'
+      };
+    }
+    
+    const link = await prisma.link.update({
+      where: { id },
+      data: { archivedAt: null },
+      include: LINK_INCLUDE
+    });
+    
+    res.json({
+      link: serializeLink(req, link)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/links/:id/health - Check the link's target now instead of
+// waiting for the background check
+router.post('/:id/health', requireScope('links:write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    
+    // Ensure link exists
+    await ensureLinkExists(id, req.apiKey!.workspaceId);
+    
+    const link = await prisma.link.findUniqueOrThrow({
+      where: { id },
+      select: { id: true, targetUrl: true }
+    });
+    const health = await checkLinkHealth(link);
+    
+    res.json({
+      health: serializeHealth(health)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/links/:id/qr - QR code of the link's short URL as SVG or PNG
+router.get('/:id/qr', requireScope('links:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { format, size, margin, level, fg, bg, logo } = parseQrOptions(req.query);
+    
+    // Ensure link exists
+    await ensureLinkExists(id, req.apiKey!.workspaceId);
+    
+    const link = await prisma.link.findUniqueOrThrow({
+      where: { id },
+      select: { slug: true, domain: { select: { host: true } } }
+    });
+    
+    // A logo covers part of the code, so it gets the most error correction by default
+    const code = encodeQr(buildShortUrl(req, link), level ?? (logo ? 'H' : 'M'));
+    const options = { size, margin, foreground: fg, background: bg, logo };
+    
+    res
+      .type(format === 'svg' ? 'image/svg+xml' : 'image/png')
+      .set('Content-Disposition', `inline; filename="${link.slug}-qr.${format}"`)
+      .send(format === 'svg' ? renderQrSvg(code, options) : renderQrPng(code, options));
     
   } catch (error) {
     next(error);
@@ -125,29 +497,55 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
 });
 
 // GET /api/v1/links/:id/analytics/summary - Get click summary for date range
-router.get('/:id/analytics/summary', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/analytics/summary', requireScope('analytics:read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     
     // Ensure link exists
-    await ensureLinkExists(id);
+    await ensureLinkExists(id, req.apiKey!.workspaceId);
     
     // Parse and normalize date range
     const dateRange = parseDateRange(req.query);
     const [fromISO, toISO] = normalizeRange(dateRange);
     
-    // Count clicks in the date range
-    const total = await prisma.click.count({
-      where: {
-        linkId: id,
-        tsUtc: {
-          gte: new Date(fromISO),
-          lte: new Date(toISO)
-        }
+    // Count clicks in the date range; crawler hits are counted separately
+    const where: Prisma.ClickWhereInput = {
+      linkId: id,
+      isBot: false,
+      tsUtc: {
+        gte: new Date(fromISO),
+        lte: new Date(toISO)
       }
+    };
+    const [total, bots, variants] = await Promise.all([
+      prisma.click.count({ where }),
+      prisma.click.count({ where: { ...where, isBot: true } }),
+      prisma.linkVariant.findMany({
+        where: { linkId: id },
+        orderBy: { position: 'asc' }
+      })
+    ]);
+    
+    if (variants.length === 0) {
+      return res.json({ total, bots });
+    }
+    
+    // A/B links also get clicks per current variant
+    const perVariant = await prisma.click.groupBy({
+      by: ['variantId'],
+      where,
+      _count: { _all: true }
     });
+    const counts = new Map(perVariant.map(row => [row.variantId, row._count._all]));
     
-    res.json({ total });
+    res.json({
+      total,
+      bots,
+      variants: variants.map(variant => ({
+        ...serializeVariant(variant),
+        total: counts.get(variant.id) ?? 0
+      }))
+    });
     
   } catch (error) {
     next(error);
@@ -155,22 +553,23 @@ router.get('/:id/analytics/summary', async (req: Request, res: Response, next: N
 });
 
 // GET /api/v1/links/:id/analytics/daily - Get daily click counts for date range
-router.get('/:id/analytics/daily', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/analytics/daily', requireScope('analytics:read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     
     // Ensure link exists
-    await ensureLinkExists(id);
+    await ensureLinkExists(id, req.apiKey!.workspaceId);
     
     // Parse and normalize date range
     const dateRange = parseDateRange(req.query);
     const [fromISO, toISO] = normalizeRange(dateRange);
     
-    // Query daily click counts using raw SQL
+    // Query daily click counts using raw SQL (crawler hits left out)
     const dailyData: { day: string; count: bigint }[] = await prisma.$queryRaw`
       SELECT date(ts_utc/1000, 'unixepoch') AS day, COUNT(*) AS count 
       FROM Click 
       WHERE linkId = ${id} 
+        AND isBot = 0
         AND ts_utc BETWEEN ${new Date(fromISO)} AND ${new Date(toISO)}
       GROUP BY date(ts_utc/1000, 'unixepoch') 
       ORDER BY date(ts_utc/1000, 'unixepoch')
@@ -182,7 +581,30 @@ router.get('/:id/analytics/daily', async (req: Request, res: Response, next: Nex
       count: Number(row.count)
     }));
     
-    res.json(dailyStats);
+    const variantCount = await prisma.linkVariant.count({ where: { linkId: id } });
+    if (variantCount === 0) {
+      return res.json(dailyStats);
+    }
+    
+    // A/B links also get each day's clicks per variant id
+    const variantData: { day: string; variantId: string | null; count: bigint }[] = await prisma.$queryRaw`
+      SELECT date(ts_utc/1000, 'unixepoch') AS day, variantId, COUNT(*) AS count
+      FROM Click
+      WHERE linkId = ${id}
+        AND variantId IS NOT NULL
+        AND isBot = 0
+        AND ts_utc BETWEEN ${new Date(fromISO)} AND ${new Date(toISO)}
+      GROUP BY date(ts_utc/1000, 'unixepoch'), variantId
+    `;
+    
+    res.json(dailyStats.map(row => ({
+      ...row,
+      variants: Object.fromEntries(
+        variantData
+          .filter(variantRow => variantRow.day === row.day)
+          .map(variantRow => [variantRow.variantId, Number(variantRow.count)])
+      )
+    })));
     
   } catch (error) {
     next(error);
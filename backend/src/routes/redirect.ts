@@ -1,34 +1,374 @@
 import express, { Request, Response, NextFunction } from 'express';
+import type { Link, LinkVariant, RedirectRule } from '@prisma/client';
 import { prisma } from '../db';
+import { verifyPassword } from '../lib/password';
+import { blockedFor, recordFailedAttempt, clearAttempts } from '../lib/attempts';
+import { renderPasswordPage, renderPreviewPage, renderSocialCard } from '../lib/html';
+import { resolveDomainId } from '../lib/domains';
+import { buildTargetUrl, preservesMethod } from '../lib/targets';
+import { detectClient, preferredLanguage, matchRule } from '../lib/rules';
+import { lookupCountry } from '../lib/geoip';
+import { pickVariant, variantCookieName, readCookie, VARIANT_COOKIE_MAX_AGE_MS } from '../lib/variants';
+import { getPageMeta } from '../lib/pagemeta';
+import { isCrawler } from '../lib/opengraph';
+import { enqueueWebhookEvents } from '../lib/webhooks';
+import { redirectRateLimit } from '../middleware/ratelimit';
 
 const router = express.Router();
 
-// GET /r/:slug - Redirect to target URL and record click
-router.get('/r/:slug', async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const { slug } = req.params;
-    
-    // Lookup link by slug
-    const link = await prisma.link.findUnique({
-      where: { slug }
+// Query parameter the preview's continue button adds so links with
+// forcePreview redirect instead of showing the preview again
+const CONTINUE_PARAM = '_continue';
+
+type LinkWithTargets = Link & { rules: RedirectRule[]; variants: LinkVariant[] };
+
+// Where a visitor is sent, and which rule or variant decided it
+interface Destination {
+  targetUrl: string;
+  ruleId: string | null;
+  variantId: string | null;
+}
+
+// Helper function to look up a link that may still be followed on the
+// requested domain. Sends the plain text response and returns null when it is
+// missing, archived, expired or out of clicks.
+async function findAvailableLink(req: Request, res: Response, slug = req.params.slug): Promise<LinkWithTargets | null> {
+  const domainId = await resolveDomainId(req.get('Host'));
+  const link = await prisma.link.findUnique({
+    where: { domainId_slug: { domainId, slug } },
+    include: {
+      rules: { orderBy: { position: 'asc' } },
+      variants: { orderBy: { position: 'asc' } }
+    }
+  });
+
+  // If not found, return 404 with plain text
+  if (!link) {
+    res.status(404).send('Not found');
+    return null;
+  }
+
+  // Archived links stay in the trash but no longer redirect
+  if (link.archivedAt) {
+    res.status(410).send('Gone');
+    return null;
+  }
+
+  // Links past their expiry date no longer redirect
+  if (link.expiresAt && link.expiresAt <= new Date()) {
+    res.status(410).send('Link expired');
+    return null;
+  }
+
+  // Nor do links that used up their clicks; this keeps previews and social
+  // cards in line with the redirect (recordClick still enforces the limit)
+  if (link.maxClicks !== null && link.clickCount >= link.maxClicks) {
+    res.status(410).send('Link expired');
+    return null;
+  }
+
+  return link;
+}
+
+// Helper function to pick the redirect rule for this visitor, if any. The
+// response then depends on who asks, so caches are told what it varies on.
+function findMatchingRule(link: LinkWithTargets, req: Request, res: Response): RedirectRule | null {
+  if (link.rules.length === 0) {
+    return null;
+  }
+  
+  res.vary('User-Agent').vary('Accept-Language');
+  return matchRule(link.rules, {
+    ...detectClient(req.get('User-Agent') ?? ''),
+    language: preferredLanguage(req.get('Accept-Language')),
+    country: lookupCountry(req.ip)
+  });
+}
+
+// Helper function to split visitors across the link's A/B variants. Sticky
+// links remember the variant in a cookie scoped to the short link's path.
+function pickLinkVariant(link: LinkWithTargets, req: Request, res: Response): LinkVariant | null {
+  if (link.variants.length === 0) {
+    return null;
+  }
+  
+  const cookieName = variantCookieName(link.id);
+  const variant = pickVariant(
+    link.variants,
+    link.stickyVariants ? readCookie(req.get('Cookie'), cookieName) : undefined
+  );
+  
+  if (variant && link.stickyVariants) {
+    res.vary('Cookie').cookie(cookieName, variant.id, {
+      path: `/r/${encodeURIComponent(link.slug)}`,
+      maxAge: VARIANT_COOKIE_MAX_AGE_MS,
+      httpOnly: true,
+      sameSite: 'lax'
     });
-    
-    // If not found, return 404 with plain text
-    if (!link) {
-      return res.status(404).send('Not found');
+  }
+  
+  return variant;
+}
+
+// Helper function to decide where the visitor goes: the first matching rule,
+// else a weighted variant, else the link's own target
+function chooseDestination(link: LinkWithTargets, req: Request, res: Response): Destination {
+  const rule = findMatchingRule(link, req, res);
+  if (rule) {
+    return { targetUrl: rule.targetUrl, ruleId: rule.id, variantId: null };
+  }
+  
+  const variant = pickLinkVariant(link, req, res);
+  return {
+    targetUrl: variant?.targetUrl ?? link.targetUrl,
+    ruleId: null,
+    variantId: variant?.id ?? null
+  };
+}
+
+// Helper function to count the redirect and record the click in one
+// transaction. The counter only moves while it is below maxClicks, so
+// concurrent visitors can never exceed the limit (a maxClicks of 1 makes a
+// one-time link). Returns false when the click limit was already reached.
+async function recordClick(link: Link, req: Request, destination: Destination): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.link.updateMany({
+      where: {
+        id: link.id,
+        OR: [
+          { maxClicks: null },
+          { clickCount: { lt: prisma.link.fields.maxClicks } }
+        ]
+      },
+      data: {
+        clickCount: { increment: 1 }
+      }
+    });
+
+    if (count === 0) {
+      return false;
     }
-    
-    // Record the click
-    await prisma.click.create({
+
+    const click = await tx.click.create({
       data: {
         linkId: link.id,
-        userAgent: req.headers['user-agent'] ?? ''
+        userAgent: req.headers['user-agent'] ?? '',
+        ruleId: destination.ruleId,
+        variantId: destination.variantId
       }
     });
+
+    // Queued with the click; the webhook worker sends it after the redirect
+    await enqueueWebhookEvents(link.workspaceId, 'click.recorded', [{
+      click: { ...click, slug: link.slug }
+    }], tx);
+
+    return true;
+  });
+}
+
+// Helper function to get the query string of the request ("" or "?..."),
+// without the preview's continue parameter
+function requestSearch(req: Request) {
+  const index = req.originalUrl.indexOf('?');
+  if (index === -1) {
+    return '';
+  }
+  
+  const search = req.originalUrl.slice(index);
+  const params = new URLSearchParams(search);
+  if (!params.has(CONTINUE_PARAM)) {
+    return search;
+  }
+  
+  params.delete(CONTINUE_PARAM);
+  const rest = params.toString();
+  return rest ? `?${rest}` : '';
+}
+
+// Helper function to send the preview page of a link. Previews are not
+// clicks, so nothing is recorded; the continue button leads to the short link.
+// Password-protected links keep their destinations hidden until the password
+// is entered, so their preview shows none of them.
+async function sendPreviewPage(link: LinkWithTargets, req: Request, res: Response) {
+  const hidden = link.passwordHash !== null;
+  const { title, favicon } = hidden ? { title: null, favicon: null } : await getPageMeta(link.targetUrl);
+  
+  // Links with forcePreview need the continue parameter to get past the preview
+  const search = requestSearch(req);
+  const continueSearch = link.forcePreview ? `${search ? `${search}&` : '?'}${CONTINUE_PARAM}=1` : search;
+  
+  // Rules and variants can send visitors elsewhere, so list those targets too
+  const otherTargets = hidden ? [] : [...new Set([...link.rules, ...link.variants].map(target => target.targetUrl))]
+    .filter(url => url !== link.targetUrl);
     
-    // Redirect to target URL
-    res.redirect(302, link.targetUrl);
+  res
+    .status(200)
+    .set('Cache-Control', 'no-store')
+    .type('html')
+    .send(renderPreviewPage({
+      slug: link.slug,
+      targetUrl: hidden ? null : link.targetUrl,
+      title,
+      favicon,
+      createdAt: link.createdAt,
+      continueUrl: `/r/${encodeURIComponent(link.slug)}${continueSearch}`,
+      otherTargets
+    }));
+}
+
+// Helper function to serve a link-preview crawler the link's social card and
+// record the hit as a bot click. Bot clicks don't count towards clickCount,
+// so unfurling a one-time link doesn't use it up. Missing fields fall back to
+// the destination's own title, except on password-protected links, whose
+// destination stays hidden.
+async function sendSocialCard(link: LinkWithTargets, req: Request, res: Response) {
+  const hidden = link.passwordHash !== null;
+  const pageTitle = (link.ogTitle || hidden) ? null : (await getPageMeta(link.targetUrl)).title;
+  
+  await prisma.click.create({
+    data: {
+      linkId: link.id,
+      userAgent: req.get('User-Agent') ?? '',
+      isBot: true
+    }
+  });
+  
+  res
+    .status(200)
+    .type('html')
+    .send(renderSocialCard({
+      url: `${req.protocol}://${req.get('Host')}/r/${encodeURIComponent(link.slug)}`,
+      title: link.ogTitle ?? pageTitle ?? (hidden ? 'Password protected link' : new URL(link.targetUrl).hostname),
+      description: link.ogDescription,
+      image: link.ogImage,
+      targetUrl: hidden ? null : link.targetUrl
+    }));
+}
+
+// Helper function to send the password form for a protected link. The form
+// posts back with the original query string so it can still be forwarded.
+function sendPasswordPage(req: Request, res: Response, status: number, slug: string, error?: string) {
+  res
+    .status(status)
+    .set('Cache-Control', 'no-store')
+    .type('html')
+    .send(renderPasswordPage(slug, error, requestSearch(req)));
+}
+
+// Helper function to record the click and redirect with the given status
+async function followLink(link: LinkWithTargets, req: Request, res: Response, status: number) {
+  // Rules are tried in order, then A/B variants, then the link's own target
+  const destination = chooseDestination(link, req, res);
+
+  // Click limit already reached
+  if (!(await recordClick(link, req, destination))) {
+    return res.status(410).send('Link expired');
+  }
+
+  // Redirect to the target, with UTM fields and any forwarded query
+  res.redirect(status, buildTargetUrl({ ...link, targetUrl: destination.targetUrl }, requestSearch(req)));
+}
+
+// GET /p/:slug - Preview where a link goes without following it
+router.get('/p/:slug', redirectRateLimit, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const link = await findAvailableLink(req, res);
+    if (!link) {
+      return;
+    }
+    
+    await sendPreviewPage(link, req, res);
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /r/:slug - Redirect to target URL and record click ("/r/:slug+" previews it)
+router.get('/r/:slug', redirectRateLimit, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Slugs never contain "+", so a trailing one always asks for the preview
+    const previewOnly = req.params.slug.length > 1 && req.params.slug.endsWith('+');
+    const link = await findAvailableLink(req, res, previewOnly ? req.params.slug.slice(0, -1) : req.params.slug);
+    if (!link) {
+      return;
+    }
     
+    // Chat apps and social networks unfurling the link get its social card
+    res.vary('User-Agent');
+    if (isCrawler(req.get('User-Agent') ?? '')) {
+      return sendSocialCard(link, req, res);
+    }
+    
+    // Links with forcePreview show it until the visitor clicks continue
+    if (previewOnly || (link.forcePreview && req.query[CONTINUE_PARAM] === undefined)) {
+      return sendPreviewPage(link, req, res);
+    }
+
+    // Protected links ask for the password first; no click is recorded yet
+    if (link.passwordHash) {
+      return sendPasswordPage(req, res, 200, link.slug);
+    }
+
+    await followLink(link, req, res, link.redirectType);
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /r/:slug - Submit the password for a protected link, or follow a
+// 307/308 link with its method kept
+router.post('/r/:slug', redirectRateLimit, express.urlencoded({ extended: false }), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const link = await findAvailableLink(req, res);
+    if (!link) {
+      return;
+    }
+
+    if (link.passwordHash) {
+      // Failed attempts are limited per link to slow down guessing
+      const retryAfter = blockedFor(link.id);
+      if (retryAfter > 0) {
+        res.set('Retry-After', String(retryAfter));
+        return sendPasswordPage(req, res, 429, link.slug, 'Too many incorrect attempts. Please try again later.');
+      }
+
+      const password = typeof req.body?.password === 'string' ? req.body.password : '';
+      if (!verifyPassword(password, link.passwordHash)) {
+        recordFailedAttempt(link.id);
+        return sendPasswordPage(req, res, 401, link.slug, 'Incorrect password');
+      }
+
+      clearAttempts(link.id);
+    }
+
+    // After the password form (or on links that don't keep the method), 303
+    // so the browser follows the redirect with a GET
+    await followLink(link, req, res, !link.passwordHash && preservesMethod(link.redirectType) ? link.redirectType : 303);
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Any other method on /r/:slug - Only 307/308 links redirect these, keeping the method
+// (OPTIONS preflights are answered by the CORS middleware)
+router.all('/r/:slug', redirectRateLimit, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const link = await findAvailableLink(req, res);
+    if (!link) {
+      return;
+    }
+
+    // Password links need the form, other links only know GET and POST
+    if (link.passwordHash || !preservesMethod(link.redirectType)) {
+      return res.status(405).set('Allow', 'GET, HEAD, POST').send('Method not allowed');
+    }
+
+    await followLink(link, req, res, link.redirectType);
+
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,126 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { parseDateRange } from '../lib/validators';
+import { normalizeRange } from '../lib/dates';
+import { findTagOrThrow } from '../lib/tags';
+import { requireScope } from '../middleware/auth';
+import { prisma } from '../db';
+
+const router = express.Router();
+
+// GET /api/v1/tags - List tags in use by the workspace's active links with their link counts
+router.get('/', requireScope('links:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const activeLinks = { workspaceId: req.apiKey!.workspaceId, archivedAt: null };
+    
+    const tags = await prisma.tag.findMany({
+      where: {
+        links: { some: activeLinks }
+      },
+      select: {
+        name: true,
+        _count: {
+          select: {
+            links: { where: activeLinks }
+          }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    });
+    
+    res.json({
+      tags: tags.map(tag => ({
+        name: tag.name,
+        linkCount: tag._count.links
+      }))
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/tags/:name/analytics/summary - Get click totals across the workspace's links with a tag
+router.get('/:name/analytics/summary', requireScope('analytics:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspaceId } = req.apiKey!;
+    const tag = await findTagOrThrow(req.params.name, workspaceId);
+    
+    // Parse and normalize date range
+    const dateRange = parseDateRange(req.query);
+    const [fromISO, toISO] = normalizeRange(dateRange);
+    
+    // Count clicks per tagged link in the date range (crawler hits left out)
+    const perLink = await prisma.click.groupBy({
+      by: ['linkId'],
+      where: {
+        link: { workspaceId, tags: { some: { id: tag.id } } },
+        isBot: false,
+        tsUtc: {
+          gte: new Date(fromISO),
+          lte: new Date(toISO)
+        }
+      },
+      _count: { _all: true }
+    });
+    
+    const links = await prisma.link.findMany({
+      where: { workspaceId, tags: { some: { id: tag.id } } },
+      select: { id: true, slug: true },
+      orderBy: { slug: 'asc' }
+    });
+    const counts = new Map(perLink.map(row => [row.linkId, row._count._all]));
+    
+    res.json({
+      tag: tag.name,
+      total: perLink.reduce((sum, row) => sum + row._count._all, 0),
+      links: links.map(link => ({
+        ...link,
+        total: counts.get(link.id) ?? 0
+      }))
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/tags/:name/analytics/daily - Get daily click counts across the workspace's links with a tag
+router.get('/:name/analytics/daily', requireScope('analytics:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspaceId } = req.apiKey!;
+    const tag = await findTagOrThrow(req.params.name, workspaceId);
+    
+    // Parse and normalize date range
+    const dateRange = parseDateRange(req.query);
+    const [fromISO, toISO] = normalizeRange(dateRange);
+    
+    // Implicit many-to-many join table: A = Link.id, B = Tag.id
+    const dailyData: { day: string; count: bigint }[] = await prisma.$queryRaw`
+      SELECT date(c.ts_utc/1000, 'unixepoch') AS day, COUNT(*) AS count
+      FROM Click c
+      JOIN _LinkToTag lt ON lt.A = c.linkId
+      JOIN Link l ON l.id = c.linkId
+      WHERE lt.B = ${tag.id}
+        AND l.workspaceId = ${workspaceId}
+        AND c.isBot = 0
+        AND c.ts_utc BETWEEN ${new Date(fromISO)} AND ${new Date(toISO)}
+      GROUP BY date(c.ts_utc/1000, 'unixepoch')
+      ORDER BY date(c.ts_utc/1000, 'unixepoch')
+    `;
+    
+    // Convert BigInt to number and format response
+    const dailyStats = dailyData.map(row => ({
+      day: row.day,
+      count: Number(row.count)
+    }));
+    
+    res.json(dailyStats);
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,180 @@
+import express, { Request, Response, NextFunction } from 'express';
+import type { Webhook } from '@prisma/client';
+import { parseCreateWebhook, parseUpdateWebhook, parseListDeliveries } from '../lib/validators';
+import { generateWebhookSecret, parseEvents, serializeDelivery } from '../lib/webhooks';
+import { requireScope } from '../middleware/auth';
+import { prisma } from '../db';
+
+const router = express.Router();
+
+// Every webhook route needs the workspace:manage scope
+router.use(requireScope('workspace:manage'));
+
+// Helper function to shape a webhook for responses (never includes the secret)
+function serializeWebhook(webhook: Webhook) {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: parseEvents(webhook.events),
+    active: webhook.active,
+    createdAt: webhook.createdAt
+  };
+}
+
+// Helper function to find a webhook of the caller's workspace (404 otherwise)
+async function findWebhookOrThrow(id: string, workspaceId: string) {
+  const webhook = await prisma.webhook.findFirst({
+    where: { id, workspaceId }
+  });
+  
+  if (!webhook) {
+    throw {
+      status: 404,
+      code: 'NOT_FOUND',
+      message: 'Webhook not found'
+    };
+  }
+  
+  return webhook;
+}
+
+// POST /api/v1/webhooks - Subscribe a URL to events (the signing secret is only returned here)
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { url, events, active } = parseCreateWebhook(req.body);
+    const secret = generateWebhookSecret();
+    
+    const webhook = await prisma.webhook.create({
+      data: {
+        workspaceId: req.apiKey!.workspaceId,
+        url,
+        events: [...new Set(events)].join(','),
+        secret,
+        active
+      }
+    });
+    
+    res.status(201).json({
+      webhook: serializeWebhook(webhook),
+      secret
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/webhooks - List the workspace's webhooks, newest first
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { workspaceId: req.apiKey!.workspaceId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    });
+    
+    res.json({
+      webhooks: webhooks.map(serializeWebhook)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/v1/webhooks/:id - Change the URL or events, or pause/resume a webhook
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { events, ...data } = parseUpdateWebhook(req.body);
+    await findWebhookOrThrow(id, req.apiKey!.workspaceId);
+    
+    const webhook = await prisma.webhook.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(events && { events: [...new Set(events)].join(',') })
+      }
+    });
+    
+    res.json({
+      webhook: serializeWebhook(webhook)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/v1/webhooks/:id - Remove a webhook with its pending deliveries and log
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    await findWebhookOrThrow(id, req.apiKey!.workspaceId);
+    
+    await prisma.webhook.delete({
+      where: { id }
+    });
+    
+    res.status(204).send();
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/webhooks/:id/deliveries - Delivery log of a webhook, newest first
+router.get('/:id/deliveries', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { limit, status } = parseListDeliveries(req.query);
+    await findWebhookOrThrow(id, req.apiKey!.workspaceId);
+    
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { webhookId: id, status },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit
+    });
+    
+    res.json({
+      deliveries: deliveries.map(serializeDelivery)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/webhooks/:id/deliveries/:deliveryId/retry - Send a failed
+// delivery again, with a fresh set of attempts
+router.post('/:id/deliveries/:deliveryId/retry', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, deliveryId } = req.params;
+    await findWebhookOrThrow(id, req.apiKey!.workspaceId);
+    
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, webhookId: id, status: 'failed' },
+      data: { status: 'pending', attempts: 0, nextAttemptAt: new Date() }
+    });
+    
+    if (count === 0) {
+      throw {
+        status: 404,
+        code: 'NOT_FOUND',
+        message: 'Failed delivery not found'
+      };
+    }
+    
+    const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: deliveryId }
+    });
+    
+    res.json({
+      delivery: serializeDelivery(delivery)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,163 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { parseCreateWorkspace, parseMember } from '../lib/validators';
+import { createApiKey, API_KEY_SCOPES } from '../lib/keys';
+import { requireScope } from '../middleware/auth';
+import { prisma } from '../db';
+
+const router = express.Router();
+
+// Helper function to shape a membership for responses
+function serializeMember(member: { role: string; user: { id: string; email: string; name: string | null } }) {
+  return {
+    userId: member.user.id,
+    email: member.user.email,
+    name: member.user.name,
+    role: member.role
+  };
+}
+
+// Helper function to stop a workspace from losing its last owner
+async function ensureNotLastOwner(workspaceId: string, userId: string) {
+  const [membership, owners] = await Promise.all([
+    prisma.membership.findUnique({
+      where: { userId_workspaceId: { userId, workspaceId } }
+    }),
+    prisma.membership.count({
+      where: { workspaceId, role: 'owner' }
+    })
+  ]);
+  
+  if (membership?.role === 'owner' && owners === 1) {
+    throw {
+      status: 409,
+      code: 'LAST_OWNER',
+      message: 'A workspace needs at least one owner'
+    };
+  }
+}
+
+// POST /api/v1/workspaces - Create a workspace owned by the caller, with an owner key for it.
+// The new key has every scope, so only workspace managers may ask for one.
+router.post('/', requireScope('workspace:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name } = parseCreateWorkspace(req.body);
+    const { userId } = req.apiKey!;
+    
+    const { workspace, apiKey, key } = await prisma.$transaction(async (tx) => {
+      const workspace = await tx.workspace.create({
+        data: {
+          name,
+          members: { create: { userId, role: 'owner' } }
+        }
+      });
+      
+      // Keys are bound to one workspace, so the caller needs a new one here
+      const { apiKey, key } = await createApiKey(`${name} owner`, [...API_KEY_SCOPES], {
+        userId,
+        workspaceId: workspace.id
+      }, tx);
+      
+      return { workspace, apiKey, key };
+    });
+    
+    res.status(201).json({
+      workspace,
+      apiKey: { id: apiKey.id, name: apiKey.name, prefix: apiKey.prefix },
+      key
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/workspaces/current - Get the caller's workspace, role and members
+router.get('/current', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspaceId, role } = req.apiKey!;
+    
+    const workspace = await prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      include: {
+        members: {
+          include: { user: true },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+    
+    res.json({
+      workspace: {
+        id: workspace.id,
+        name: workspace.name,
+        createdAt: workspace.createdAt
+      },
+      role,
+      members: workspace.members.map(serializeMember)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/workspaces/current/members - Add a member by email, or change their role
+router.post('/current/members', requireScope('workspace:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, name, role } = parseMember(req.body);
+    const { workspaceId } = req.apiKey!;
+    
+    const user = await prisma.user.upsert({
+      where: { email },
+      create: { email, name },
+      update: {}
+    });
+    
+    if (role !== 'owner') {
+      await ensureNotLastOwner(workspaceId, user.id);
+    }
+    
+    const member = await prisma.membership.upsert({
+      where: { userId_workspaceId: { userId: user.id, workspaceId } },
+      create: { userId: user.id, workspaceId, role },
+      update: { role },
+      include: { user: true }
+    });
+    
+    res.json({
+      member: serializeMember(member)
+    });
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/v1/workspaces/current/members/:userId - Remove a member; their keys stop working
+router.delete('/current/members/:userId', requireScope('workspace:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId } = req.params;
+    const { workspaceId } = req.apiKey!;
+    
+    await ensureNotLastOwner(workspaceId, userId);
+    
+    const { count } = await prisma.membership.deleteMany({
+      where: { userId, workspaceId }
+    });
+    
+    if (count === 0) {
+      throw {
+        status: 404,
+        code: 'NOT_FOUND',
+        message: 'Member not found'
+      };
+    }
+    
+    res.status(204).send();
+    
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,4 +1,6 @@
 import { prisma } from './db';
+import { createApiKey, API_KEY_SCOPES } from './lib/keys';
+import { DEFAULT_WORKSPACE_ID } from './lib/workspaces';
 
 const SAMPLE_LINKS = [
   {
@@ -111,6 +113,12 @@ async function main() {
       }
     }
     
+    // Keep the redirect counter (used for sorting and maxClicks) in sync
+    await prisma.link.update({
+      where: { id: link.id },
+      data: { clickCount: linkClicksCreated }
+    });
+    
     linkStats[link.slug] = linkClicksCreated;
   }
 
@@ -144,6 +152,26 @@ async function main() {
   
   console.log(`   Total clicks: ${totalClicks}`);
   console.log(`   Clicks in last 7 days: ${recentClicks}`);
+  
+  // The dashboard calls the management API, which requires an API key.
+  // Sample links live in the default workspace, owned by a demo user.
+  const demoUser = await prisma.user.upsert({
+    where: { email: 'demo@example.com' },
+    create: { email: 'demo@example.com', name: 'Demo User' },
+    update: {}
+  });
+  await prisma.membership.upsert({
+    where: { userId_workspaceId: { userId: demoUser.id, workspaceId: DEFAULT_WORKSPACE_ID } },
+    create: { userId: demoUser.id, workspaceId: DEFAULT_WORKSPACE_ID, role: 'owner' },
+    update: { role: 'owner' }
+  });
+  const { key } = await createApiKey('Local dashboard', [...API_KEY_SCOPES], {
+    userId: demoUser.id,
+    workspaceId: DEFAULT_WORKSPACE_ID
+  });
+  console.log('\n🔑 Dashboard API key (shown once):');
+  console.log(`   ${key}`);
+  console.log('   Add it to frontend/.env.local as VITE_API_KEY');
 }
 
 main()
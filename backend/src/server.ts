@@ -1,13 +1,77 @@
 import app from './app';
 import { Env } from './env';
+import { purgeExpiredLinks } from './lib/trash';
+import { purgeExpiredIdempotencyKeys } from './lib/idempotency';
+import { checkStaleLinks } from './lib/health';
+import { deliverDueWebhooks, purgeOldDeliveries } from './lib/webhooks';
+import { refreshGeoIpDatabase } from './lib/geoip';
 
 const PORT = Number(Env.PORT);
 
+// How often archived links, idempotency keys and webhook deliveries past their retention period are purged
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// How often links due for a health check are looked for (a batch per run)
+const HEALTH_CHECK_TICK_MS = 5 * 60 * 1000;
+
+// How often the webhook outbox is looked at for due deliveries
+const WEBHOOK_TICK_MS = 5 * 1000;
+
 // Start server if this file is run directly
 if (require.main === module) {
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
   });
+  
+  // Load the IP-to-country database before the first redirect needs it
+  void refreshGeoIpDatabase();
+  
+  // Empty the trash of expired links in the background
+  setInterval(() => {
+    purgeExpiredLinks()
+      .then((count) => {
+        if (count > 0) {
+          console.log(`Purged ${count} archived link(s)`);
+        }
+      })
+      .catch((error) => console.error('Failed to purge archived links:', error));
+    
+    purgeExpiredIdempotencyKeys()
+      .catch((error) => console.error('Failed to purge idempotency keys:', error));
+    
+    purgeOldDeliveries()
+      .catch((error) => console.error('Failed to purge webhook deliveries:', error));
+  }, PURGE_INTERVAL_MS).unref();
+  
+  // Check link targets for broken destinations in the background
+  if (Number(Env.HEALTH_CHECK_INTERVAL_MINUTES) > 0) {
+    let checking = false;
+    setInterval(() => {
+      if (checking) {
+        return;
+      }
+      checking = true;
+      checkStaleLinks()
+        .catch((error) => console.error('Failed to check link health:', error))
+        .finally(() => {
+          checking = false;
+        });
+    }, HEALTH_CHECK_TICK_MS).unref();
+  }
+  
+  // Send queued webhook events; slow receivers only delay this loop, never requests
+  let delivering = false;
+  setInterval(() => {
+    if (delivering) {
+      return;
+    }
+    delivering = true;
+    deliverDueWebhooks()
+      .catch((error) => console.error('Failed to deliver webhooks:', error))
+      .finally(() => {
+        delivering = false;
+      });
+  }, WEBHOOK_TICK_MS).unref();
 }
 
 export default app;
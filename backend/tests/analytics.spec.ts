@@ -110,7 +110,7 @@ describe('Analytics functionality', () => {
 
     // Assert: Check total count
     expect(response.status).toBe(200);
-    expect(response.body).toEqual({ total: 7 });
+    expect(response.body).toEqual({ total: 7, bots: 0 });
   });
 
   it('should return empty array for links with no clicks in date range', async () => {
@@ -188,7 +188,7 @@ describe('Analytics functionality', () => {
 
     // Assert: Should only count clicks within the date range
     expect(response.status).toBe(200);
-    expect(response.body).toEqual({ total: 4 });
+    expect(response.body).toEqual({ total: 4, bots: 0 });
 
     // Test edge case: Exact boundary timestamps
     const edgeCaseResponse = await request(app)
@@ -199,7 +199,7 @@ describe('Analytics functionality', () => {
       });
 
     expect(edgeCaseResponse.status).toBe(200);
-    expect(edgeCaseResponse.body).toEqual({ total: 2 });
+    expect(edgeCaseResponse.body).toEqual({ total: 2, bots: 0 });
   });
 
   it('should handle summary analytics with no date range (default to last 30 days)', async () => {
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+import { Env } from '../src/env';
+import { isPrivateAddress, parseDestinationPolicy } from '../src/lib/destinations';
+
+const policyPath = join(tmpdir(), `destination-policy-${process.pid}.txt`);
+
+describe('Destination safety checks', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+    writeFileSync(policyPath, [
+      '# Known phishing hosts',
+      'phish.example',
+      'blogspot.example',
+      'allow team.blogspot.example'
+    ].join('\n'));
+    Object.assign(Env, { DESTINATION_POLICY_FILE: policyPath });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    Object.assign(Env, { DESTINATION_POLICY_FILE: '' });
+    rmSync(policyPath, { force: true });
+    await teardownTestDatabase();
+  });
+
+  it('should parse blocked and allowed hosts, ignoring comments', () => {
+    const policy = parseDestinationPolicy('Evil.Example.  # trailing dot\n\n# comment\nallow ok.example\n');
+
+    expect([...policy.blocked]).toEqual(['evil.example']);
+    expect([...policy.allowed]).toEqual(['ok.example']);
+  });
+
+  it('should detect private, loopback and link-local addresses', () => {
+    expect(isPrivateAddress('10.1.2.3')).toBe(true);
+    expect(isPrivateAddress('172.31.0.1')).toBe(true);
+    expect(isPrivateAddress('192.168.1.1')).toBe(true);
+    expect(isPrivateAddress('127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('169.254.169.254')).toBe(true);
+    expect(isPrivateAddress('::1')).toBe(true);
+    expect(isPrivateAddress('fe80::1')).toBe(true);
+    expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('2606:2800:220:1::')).toBe(false);
+    expect(isPrivateAddress('example.com')).toBe(false);
+  });
+
+  it('should reject blocklisted hosts and their subdomains unless allowlisted', async () => {
+    // Act
+    const blocked = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://login.phish.example/account' });
+    const parentBlocked = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://someone.blogspot.example/' });
+    const allowed = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://team.blogspot.example/post' });
+
+    // Assert
+    expect(blocked.status).toBe(400);
+    expect(blocked.body.error).toEqual({
+      code: 'DESTINATION_BLOCKED',
+      message: 'Target URL host is blocked'
+    });
+    expect(parentBlocked.body.error.code).toBe('DESTINATION_BLOCKED');
+    expect(allowed.status).toBe(201);
+  });
+
+  it('should reject private and local targets, including obfuscated IPs', async () => {
+    const targets = [
+      'http://localhost:8080/admin',
+      'http://127.0.0.1/',
+      'http://2130706433/', // 127.0.0.1 as a single number
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/',
+      'http://[::ffff:10.0.0.1]/'
+    ];
+
+    for (const targetUrl of targets) {
+      const response = await request(app).post('/api/v1/links').send({ targetUrl });
+
+      expect(response.status, targetUrl).toBe(400);
+      expect(response.body.error.code).toBe('DESTINATION_BLOCKED');
+    }
+  });
+
+  it('should reject targets that loop back to the shortener', async () => {
+    for (const targetUrl of ['https://SHO.RT/r/other', 'https://sho.rt/R/other', 'https://sho.rt/P/other', 'https://sho.rt/r/other+']) {
+      const response = await request(app)
+        .post('/api/v1/links')
+        .set('Host', 'sho.rt')
+        .send({ targetUrl });
+
+      expect(response.status, targetUrl).toBe(400);
+      expect(response.body.error.message).toBe('Target URL points back at this shortener');
+    }
+  });
+
+  it('should apply the same checks to updates and imports', async () => {
+    // Arrange
+    const link = await prismaTest.link.create({
+      data: { slug: 'safe', targetUrl: 'https://example.com' }
+    });
+
+    // Act
+    const patch = await request(app)
+      .patch(`/api/v1/links/${link.id}`)
+      .send({ targetUrl: 'https://phish.example/' });
+    const imported = await request(app)
+      .post('/api/v1/links/import')
+      .send([
+        { targetUrl: 'https://example.com/ok' },
+        { targetUrl: 'http://192.168.0.1/' }
+      ]);
+
+    // Assert
+    expect(patch.status).toBe(400);
+    expect(patch.body.error.code).toBe('DESTINATION_BLOCKED');
+    expect(imported.body.summary).toEqual({ total: 2, created: 1, failed: 1 });
+    expect(imported.body.results[1].error.code).toBe('DESTINATION_BLOCKED');
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+import { verifyDomain } from '../src/lib/domains';
+
+// Register a domain and verify it against a stand-in resolver that has its TXT record
+async function registerVerifiedDomain(host: string) {
+  const { body } = await request(app).post('/api/v1/domains').send({ host });
+  const { name, value } = body.domain.verification;
+  const domain = await prismaTest.domain.findUniqueOrThrow({ where: { id: body.domain.id } });
+  await verifyDomain(domain, async (hostname) => hostname === name ? [[value]] : []);
+}
+
+describe('Branded domains', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should resolve the same slug to different links per domain', async () => {
+    // Arrange: Two brand domains with a "promo" link each
+    await registerVerifiedDomain('go.brand-a.com');
+    await registerVerifiedDomain('Go.Brand-B.com');
+    const a = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://brand-a.com/promo', slug: 'promo', domain: 'go.brand-a.com' });
+    const b = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://brand-b.com/promo', slug: 'promo', domain: 'go.brand-b.com' });
+
+    // Act
+    const redirectA = await request(app).get('/r/promo').set('Host', 'go.brand-a.com');
+    const redirectB = await request(app).get('/r/promo').set('Host', 'GO.BRAND-B.COM');
+    const redirectDefault = await request(app).get('/r/promo');
+
+    // Assert: The Host header picks the link; the default domain has no "promo"
+    expect(a.status).toBe(201);
+    expect(a.body.link).toMatchObject({
+      domain: 'go.brand-a.com',
+      shortUrl: 'https://go.brand-a.com/r/promo'
+    });
+    expect(b.status).toBe(201);
+    expect(redirectA.headers.location).toBe('https://brand-a.com/promo');
+    expect(redirectB.headers.location).toBe('https://brand-b.com/promo');
+    expect(redirectDefault.status).toBe(404);
+  });
+
+  it('should only serve a domain once its TXT record proves ownership', async () => {
+    // Arrange: A registered but unverified domain with a link
+    const registered = await request(app).post('/api/v1/domains').send({ host: 'go.brand-a.com' });
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://brand-a.com/promo', slug: 'promo', domain: 'go.brand-a.com' });
+    const { verification } = registered.body.domain;
+    const domain = await prismaTest.domain.findUniqueOrThrow({ where: { id: registered.body.domain.id } });
+
+    // Act: Redirect before verifying, verify with the wrong record, then with the right one
+    const before = await request(app).get('/r/promo').set('Host', 'go.brand-a.com');
+    const wrongRecord = await verifyDomain(domain, async () => [['shortener-verification=someone-else']])
+      .catch(error => error);
+    await verifyDomain(domain, async (hostname) => hostname === verification.name ? [[verification.value]] : []);
+    const after = await request(app).get('/r/promo').set('Host', 'go.brand-a.com');
+    const list = await request(app).get('/api/v1/domains');
+
+    // Assert
+    expect(registered.status).toBe(201);
+    expect(registered.body.domain).toMatchObject({ verified: false });
+    expect(verification).toEqual({
+      type: 'TXT',
+      name: '_shortener-verification.go.brand-a.com',
+      value: expect.stringMatching(/^shortener-verification=[0-9a-f]{32}$/)
+    });
+    expect(before.status).toBe(404);
+    expect(wrongRecord.code).toBe('VERIFICATION_FAILED');
+    expect(after.headers.location).toBe('https://brand-a.com/promo');
+    expect(list.body.domains).toContainEqual(
+      expect.objectContaining({ host: 'go.brand-a.com', verified: true, verification: null })
+    );
+  });
+
+  it('should refuse to register hosts the shortener itself runs on', async () => {
+    const apiHost = await request(app).post('/api/v1/domains').set('Host', 'sho.rt').send({ host: 'sho.rt' });
+    const local = await request(app).post('/api/v1/domains').send({ host: 'localhost:3000' });
+
+    expect(apiHost.status).toBe(400);
+    expect(apiHost.body.error.code).toBe('DOMAIN_RESERVED');
+    expect(local.status).toBe(400);
+    expect(await prismaTest.domain.count({ where: { host: { not: null } } })).toBe(0);
+  });
+
+  it('should serve default-domain links on any unregistered host', async () => {
+    const created = await request(app)
+      .post('/api/v1/links')
+      .set('Host', 'sho.rt')
+      .send({ targetUrl: 'https://example.com', slug: 'plain' });
+
+    const response = await request(app).get('/r/plain').set('Host', 'anything.example');
+
+    expect(created.body.link).toMatchObject({ domain: null, shortUrl: 'http://sho.rt/r/plain' });
+    expect(response.status).toBe(302);
+  });
+
+  it('should keep slugs unique within a domain', async () => {
+    await request(app).post('/api/v1/domains').send({ host: 'go.brand-a.com' });
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/1', slug: 'dup', domain: 'go.brand-a.com' });
+
+    const sameDomain = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/2', slug: 'dup', domain: 'go.brand-a.com' });
+    const defaultDomain = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/3', slug: 'dup' });
+
+    expect(sameDomain.status).toBe(409);
+    expect(sameDomain.body.error.code).toBe('SLUG_TAKEN');
+    expect(defaultDomain.status).toBe(201);
+  });
+
+  it('should only create links on domains of the caller workspace', async () => {
+    // Arrange: Another workspace registers a domain
+    const { body } = await request(app)
+      .post('/api/v1/workspaces')
+      .send({ name: 'Other' });
+    await request(app)
+      .post('/api/v1/domains')
+      .set('Authorization', `Bearer ${body.key}`)
+      .send({ host: 'go.other.com' });
+
+    // Act
+    const foreign = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', domain: 'go.other.com' });
+    const list = await request(app).get('/api/v1/domains');
+
+    // Assert
+    expect(foreign.status).toBe(404);
+    expect(foreign.body.error.message).toBe('Domain not found');
+    expect(list.body.domains).toEqual([
+      expect.objectContaining({ id: 'default', host: null, isDefault: true })
+    ]);
+  });
+
+  it('should let another workspace claim a pending host until one verifies it', async () => {
+    // Arrange: Another workspace claims a host without ever verifying it
+    const { body } = await request(app)
+      .post('/api/v1/workspaces')
+      .send({ name: 'Other' });
+    const pending = await request(app)
+      .post('/api/v1/domains')
+      .set('Authorization', `Bearer ${body.key}`)
+      .send({ host: 'go.brand-a.com' });
+
+    // Act: Claim the same host, claim it twice, verify it, then let the other workspace retry
+    const claimed = await request(app).post('/api/v1/domains').send({ host: 'go.brand-a.com' });
+    const again = await request(app).post('/api/v1/domains').send({ host: 'go.brand-a.com' });
+    const domain = await prismaTest.domain.findUniqueOrThrow({ where: { id: claimed.body.domain.id } });
+    const { name, value } = claimed.body.domain.verification;
+    await verifyDomain(domain, async (hostname) => hostname === name ? [[value]] : []);
+    const retry = await request(app)
+      .post('/api/v1/domains')
+      .set('Authorization', `Bearer ${body.key}`)
+      .send({ host: 'go.brand-a.com' });
+
+    // Assert: The pending claim was dropped once the host was verified
+    expect(pending.status).toBe(201);
+    expect(claimed.status).toBe(201);
+    expect(again.status).toBe(409);
+    expect(again.body.error.code).toBe('DOMAIN_TAKEN');
+    expect(retry.status).toBe(409);
+    expect(retry.body.error.code).toBe('DOMAIN_TAKEN');
+    expect(await prismaTest.domain.findMany({ where: { host: 'go.brand-a.com' }, select: { id: true } }))
+      .toEqual([{ id: claimed.body.domain.id }]);
+  });
+
+  it('should move links between domains and refuse to delete domains in use', async () => {
+    // Arrange
+    const domain = await request(app).post('/api/v1/domains').send({ host: 'go.brand-a.com' });
+    const link = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'moving', domain: 'go.brand-a.com' });
+
+    // Act: Delete while in use, move the link back to the default domain, delete again
+    const inUse = await request(app).delete(`/api/v1/domains/${domain.body.domain.id}`);
+    const moved = await request(app)
+      .patch(`/api/v1/links/${link.body.link.id}`)
+      .send({ domain: null });
+    const deleted = await request(app).delete(`/api/v1/domains/${domain.body.domain.id}`);
+
+    // Assert
+    expect(inUse.status).toBe(409);
+    expect(inUse.body.error.code).toBe('DOMAIN_IN_USE');
+    expect(moved.body.link.domain).toBeNull();
+    expect(deleted.status).toBe(204);
+    expect(await prismaTest.link.count()).toBe(1);
+  });
+
+  it('should reject link targets pointing at a registered domain', async () => {
+    await request(app).post('/api/v1/domains').send({ host: 'go.brand-a.com' });
+
+    const response = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://go.brand-a.com/r/promo' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('DESTINATION_BLOCKED');
+  });
+
+  it('should check import slugs and domains per domain', async () => {
+    await request(app).post('/api/v1/domains').send({ host: 'go.brand-a.com' });
+
+    const response = await request(app)
+      .post('/api/v1/links/import')
+      .send([
+        { targetUrl: 'https://example.com/1', slug: 'same' },
+        { targetUrl: 'https://example.com/2', slug: 'same', domain: 'go.brand-a.com' },
+        { targetUrl: 'https://example.com/3', slug: 'same', domain: 'go.brand-a.com' },
+        { targetUrl: 'https://example.com/4', domain: 'go.unknown.com' }
+      ]);
+
+    expect(response.body.results.map((r: any) => r.error?.code ?? r.status)).toEqual([
+      'created', 'created', 'SLUG_TAKEN', 'NOT_FOUND'
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+
+describe('Link expiry functionality', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should create a link with expiresAt and maxClicks', async () => {
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+    // Act: Create a limited link
+    const response = await request(app)
+      .post('/api/v1/links')
+      .send({
+        targetUrl: 'https://example.com/campaign',
+        slug: 'campaign',
+        expiresAt,
+        maxClicks: 100
+      });
+
+    // Assert: Limits are stored and returned
+    expect(response.status).toBe(201);
+    expect(response.body.link.expiresAt).toBe(expiresAt);
+    expect(response.body.link.maxClicks).toBe(100);
+  });
+
+  it('should reject expiry dates in the past and non-positive click limits', async () => {
+    const response = await request(app)
+      .post('/api/v1/links')
+      .send({
+        targetUrl: 'https://example.com',
+        expiresAt: '2020-01-01T00:00:00.000Z',
+        maxClicks: 0
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details).toEqual([
+      { field: 'expiresAt', message: 'Expiry must be in the future' },
+      { field: 'maxClicks', message: 'Max clicks must be at least 1' }
+    ]);
+  });
+
+  it('should stop redirecting once the expiry date has passed', async () => {
+    // Arrange: Link that expired yesterday
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'expired-date',
+        targetUrl: 'https://example.com/old-campaign',
+        expiresAt: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      }
+    });
+
+    // Act: Follow the short link
+    const response = await request(app).get('/r/expired-date');
+
+    // Assert: 410 with no click recorded
+    expect(response.status).toBe(410);
+    expect(response.text).toBe('Link expired');
+    expect(await prismaTest.click.count({ where: { linkId: link.id } })).toBe(0);
+  });
+
+  it('should redirect a one-time link exactly once', async () => {
+    // Arrange: Burn-after-reading link
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'one-time',
+        targetUrl: 'https://example.com/secret',
+        maxClicks: 1
+      }
+    });
+
+    // Act: Several visitors hit the link at the same time
+    const responses = await Promise.all(
+      Array.from({ length: 5 }, () => request(app).get('/r/one-time'))
+    );
+
+    // Assert: Exactly one redirect and one click
+    const statuses = responses.map(r => r.status).sort();
+    expect(statuses).toEqual([302, 410, 410, 410, 410]);
+    expect(await prismaTest.click.count({ where: { linkId: link.id } })).toBe(1);
+
+    const updated = await prismaTest.link.findUnique({ where: { id: link.id } });
+    expect(updated?.clickCount).toBe(1);
+  });
+
+  it('should not preview or unfurl a link that used up its clicks', async () => {
+    // Arrange: A one-time link that was already followed
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'used-up',
+        targetUrl: 'https://example.com/secret',
+        maxClicks: 1,
+        clickCount: 1
+      }
+    });
+
+    // Act
+    const preview = await request(app).get('/p/used-up');
+    const plusPreview = await request(app).get('/r/used-up+');
+    const card = await request(app).get('/r/used-up').set('User-Agent', 'facebookexternalhit/1.1');
+
+    // Assert: Gone everywhere, without leaking the target or recording a bot click
+    for (const response of [preview, plusPreview, card]) {
+      expect(response.status).toBe(410);
+      expect(response.text).not.toContain('example.com/secret');
+    }
+    expect(await prismaTest.click.count({ where: { linkId: link.id } })).toBe(0);
+  });
+
+  it('should allow clearing limits via PATCH', async () => {
+    // Arrange: Link whose click budget is used up
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'used-up',
+        targetUrl: 'https://example.com/used',
+        maxClicks: 1,
+        clickCount: 1
+      }
+    });
+    expect((await request(app).get('/r/used-up')).status).toBe(410);
+
+    // Act: Remove the limit
+    const response = await request(app)
+      .patch(`/api/v1/links/${link.id}`)
+      .send({ maxClicks: null });
+
+    // Assert: Link redirects again
+    expect(response.status).toBe(200);
+    expect(response.body.link.maxClicks).toBeNull();
+    expect((await request(app).get('/r/used-up')).status).toBe(302);
+  });
+});
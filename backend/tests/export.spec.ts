@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { toCsvLine } from '../src/lib/csv';
+import { Writable } from 'stream';
+import { EXPORT_BATCH_SIZE, writeExport } from '../src/lib/export';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+
+describe('Export functionality', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should quote CSV cells only when needed', () => {
+    expect(toCsvLine(['plain', 'a,b', 'say "hi"', null, 3, new Date('2025-01-01T00:00:00.000Z')]))
+      .toBe('plain,"a,b","say ""hi""",,3,2025-01-01T00:00:00.000Z');
+  });
+
+  it('should export all links as CSV with a header row', async () => {
+    // Arrange: An active and an archived link
+    await prismaTest.link.create({
+      data: {
+        slug: 'export-a',
+        targetUrl: 'https://example.com/a?x=1,2',
+        createdAt: new Date('2025-01-01T00:00:00.000Z')
+      }
+    });
+    await prismaTest.link.create({
+      data: {
+        slug: 'export-b',
+        targetUrl: 'https://example.com/b',
+        createdAt: new Date('2025-01-02T00:00:00.000Z'),
+        archivedAt: new Date('2025-01-03T00:00:00.000Z')
+      }
+    });
+
+    // Act: Download the export
+    const response = await request(app).get('/api/v1/export/links');
+
+    // Assert: Attachment with header and one line per link, oldest first
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/text\/csv/);
+    expect(response.headers['content-disposition']).toMatch(/attachment; filename="links-.*\.csv"/);
+
+    const lines = response.text.trim().split('\n');
+    expect(lines[0]).toBe('id,slug,targetUrl,createdAt,archivedAt,expiresAt,maxClicks,clickCount');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain('export-a,"https://example.com/a?x=1,2",2025-01-01T00:00:00.000Z,,,,0');
+    expect(lines[2]).toContain('export-b,https://example.com/b,2025-01-02T00:00:00.000Z,2025-01-03T00:00:00.000Z');
+  });
+
+  it('should export clicks in a date range as NDJSON across batches', async () => {
+    // Arrange: More clicks than one batch inside the range, plus one outside
+    const link = await prismaTest.link.create({
+      data: { slug: 'export-clicks', targetUrl: 'https://example.com/clicks' }
+    });
+    const inRange = EXPORT_BATCH_SIZE + 5;
+    await prismaTest.click.createMany({
+      data: Array.from({ length: inRange }, (_, i) => ({
+        linkId: link.id,
+        tsUtc: new Date(Date.UTC(2025, 0, 1, 0, 0, i)),
+        userAgent: `agent-${i}`
+      }))
+    });
+    await prismaTest.click.create({
+      data: { linkId: link.id, tsUtc: new Date('2024-06-01T00:00:00.000Z'), userAgent: 'too-old' }
+    });
+
+    // Act: Export the range as NDJSON
+    const response = await request(app)
+      .get('/api/v1/export/clicks')
+      .query({
+        format: 'ndjson',
+        linkId: link.id,
+        from: '2025-01-01T00:00:00.000Z',
+        to: '2025-01-31T23:59:59.999Z'
+      });
+
+    // Assert: Every click in range exactly once, in time order
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/application\/x-ndjson/);
+
+    const rows = response.text.trim().split('\n').map(line => JSON.parse(line));
+    expect(rows).toHaveLength(inRange);
+    expect(new Set(rows.map(row => row.id)).size).toBe(inRange);
+    expect(rows[0]).toMatchObject({ linkId: link.id, slug: 'export-clicks', userAgent: 'agent-0' });
+    expect(rows[inRange - 1].userAgent).toBe(`agent-${inRange - 1}`);
+  });
+
+  it('should not leave listeners behind when waiting for the client to drain', async () => {
+    // Arrange: A tiny buffer that pauses the export after every batch
+    const out = new Writable({
+      highWaterMark: 1,
+      write: (_chunk, _encoding, callback) => setImmediate(callback)
+    });
+    async function* batches() {
+      for (let i = 0; i < 20; i++) {
+        yield [{ id: `row-${i}` }];
+      }
+    }
+
+    // Act
+    await writeExport(out, 'ndjson', [{ name: 'id', value: (row: { id: string }) => row.id }], batches());
+
+    // Assert
+    expect(out.listenerCount('drain')).toBe(0);
+    expect(out.listenerCount('close')).toBe(0);
+  });
+
+  it('should return 404 for an unknown link and 400 for an unknown format', async () => {
+    const missing = await request(app).get('/api/v1/export/clicks').query({ linkId: 'nope' });
+    const badFormat = await request(app).get('/api/v1/export/links').query({ format: 'xlsx' });
+
+    expect(missing.status).toBe(404);
+    expect(missing.body.error.code).toBe('NOT_FOUND');
+    expect(badFormat.status).toBe(400);
+    expect(badFormat.body.error.details[0].field).toBe('format');
+  });
+});
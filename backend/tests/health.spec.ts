@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo, LookupFunction } from 'net';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+import { checkStaleLinks } from '../src/lib/health';
+
+// Stand-in for destination sites; every host name resolves to it
+let server: http.Server;
+let origin: string;
+const requests: string[] = [];
+
+const localLookup: LookupFunction = (hostname, options, callback) => {
+  if (options.all) {
+    callback(null, [{ address: '127.0.0.1', family: 4 }]);
+  } else {
+    callback(null, '127.0.0.1', 4);
+  }
+};
+
+function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+  requests.push(`${req.method} ${req.url}`);
+
+  if (req.url === '/ok') {
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end('<h1>Fine</h1>');
+  } else if (req.url === '/moved') {
+    res.writeHead(301, { Location: '/ok' }).end();
+  } else if (req.url === '/no-head') {
+    res.writeHead(req.method === 'HEAD' ? 405 : 200).end();
+  } else {
+    res.writeHead(404).end('Not found');
+  }
+}
+
+describe('Link health checks', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+    server = http.createServer(handleRequest);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://sites.test:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+    requests.length = 0;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await teardownTestDatabase();
+  });
+
+  it('should record status, latency and final URL, falling back to GET', async () => {
+    // Arrange
+    for (const path of ['ok', 'moved', 'no-head', 'gone']) {
+      await request(app).post('/api/v1/links').send({ targetUrl: `${origin}/${path}`, slug: path });
+    }
+
+    // Act
+    const checked = await checkStaleLinks({ lookup: localLookup });
+    const list = await request(app).get('/api/v1/links').query({ sort: 'slug' });
+
+    // Assert
+    expect(checked).toBe(4);
+    const health = Object.fromEntries(list.body.links.map((link: any) => [link.slug, link.health]));
+    expect(health.ok).toMatchObject({ status: 'ok', statusCode: 200, finalUrl: null, error: null });
+    expect(health.ok.latencyMs).toEqual(expect.any(Number));
+    expect(health.moved).toMatchObject({ status: 'ok', statusCode: 200, finalUrl: `${origin}/ok` });
+    expect(health['no-head']).toMatchObject({ status: 'ok', statusCode: 200 });
+    expect(health.gone).toMatchObject({ status: 'broken', statusCode: 404 });
+    expect(requests.filter(line => line.endsWith('/no-head'))).toEqual(['HEAD /no-head', 'GET /no-head']);
+    expect(requests.filter(line => line.endsWith('/ok')).every(line => line.startsWith('HEAD'))).toBe(true);
+  });
+
+  it('should only check links that are due', async () => {
+    // Arrange
+    const fresh = await request(app).post('/api/v1/links').send({ targetUrl: `${origin}/ok` });
+    const archived = await request(app).post('/api/v1/links').send({ targetUrl: `${origin}/ok` });
+    await request(app).delete(`/api/v1/links/${archived.body.link.id}`);
+    await checkStaleLinks({ lookup: localLookup });
+
+    // Act
+    const soon = await checkStaleLinks({ lookup: localLookup });
+    const later = await checkStaleLinks({ now: new Date(Date.now() + 7 * 60 * 60 * 1000), lookup: localLookup });
+    const retargeted = await request(app)
+      .patch(`/api/v1/links/${fresh.body.link.id}`)
+      .send({ targetUrl: `${origin}/gone` });
+
+    // Assert: Changing the target drops the old result
+    expect(soon).toBe(0);
+    expect(later).toBe(1);
+    expect(retargeted.body.link.health).toBeNull();
+    expect(await prismaTest.linkHealth.count()).toBe(0);
+  });
+
+  it('should check a link on demand and never reach private addresses', async () => {
+    // Arrange
+    const link = await prismaTest.link.create({
+      data: { slug: 'internal', targetUrl: 'http://127.0.0.1:9/admin', workspaceId: 'default', domainId: 'default' }
+    });
+
+    // Act
+    const response = await request(app).post(`/api/v1/links/${link.id}/health`);
+    const missing = await request(app).post('/api/v1/links/missing/health');
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.body.health).toMatchObject({
+      status: 'broken',
+      statusCode: null,
+      finalUrl: null,
+      error: 'Refusing to fetch 127.0.0.1: not a public address'
+    });
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+import { IDEMPOTENCY_KEY_TTL_MS } from '../src/lib/idempotency';
+
+describe('Idempotent link creation', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should replay the original response when a request is retried', async () => {
+    // Act: Send the same random-slug request twice with one key
+    const first = await request(app)
+      .post('/api/v1/links')
+      .set('Idempotency-Key', 'retry-1')
+      .send({ targetUrl: 'https://example.com/pipeline' });
+    const retry = await request(app)
+      .post('/api/v1/links')
+      .set('Idempotency-Key', 'retry-1')
+      .send({ targetUrl: 'https://example.com/pipeline' });
+
+    // Assert: Same link and body, only one link stored
+    expect(first.status).toBe(201);
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(retry.status).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+    expect(await prismaTest.link.count()).toBe(1);
+  });
+
+  it('should return 422 when a key is reused with a different body', async () => {
+    await request(app)
+      .post('/api/v1/links')
+      .set('Idempotency-Key', 'reused')
+      .send({ targetUrl: 'https://example.com/one' });
+
+    const response = await request(app)
+      .post('/api/v1/links')
+      .set('Idempotency-Key', 'reused')
+      .send({ targetUrl: 'https://example.com/two' });
+
+    expect(response.status).toBe(422);
+    expect(response.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(await prismaTest.link.count()).toBe(1);
+  });
+
+  it('should not store failed requests so they can be retried', async () => {
+    // Arrange: The slug is taken, so the first attempt fails
+    await prismaTest.link.create({
+      data: { slug: 'taken', targetUrl: 'https://example.com/taken' }
+    });
+    const failed = await request(app)
+      .post('/api/v1/links')
+      .set('Idempotency-Key', 'after-conflict')
+      .send({ targetUrl: 'https://example.com/mine', slug: 'taken' });
+
+    // Act: Free the slug and retry with the same key
+    await prismaTest.link.deleteMany({ where: { slug: 'taken' } });
+    const retry = await request(app)
+      .post('/api/v1/links')
+      .set('Idempotency-Key', 'after-conflict')
+      .send({ targetUrl: 'https://example.com/mine', slug: 'taken' });
+
+    // Assert
+    expect(failed.status).toBe(409);
+    expect(retry.status).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('should keep keys separate per workspace and let expired keys be reused', async () => {
+    // Arrange: Another workspace uses the same key, and our own use of it has expired
+    const { body } = await request(app)
+      .post('/api/v1/workspaces')
+      .send({ name: 'Other' });
+    await request(app)
+      .post('/api/v1/links')
+      .set('Authorization', `Bearer ${body.key}`)
+      .set('Idempotency-Key', 'shared')
+      .send({ targetUrl: 'https://example.com/other' });
+    await prismaTest.idempotencyKey.create({
+      data: {
+        workspaceId: 'default',
+        key: 'shared',
+        requestHash: 'old',
+        statusCode: 201,
+        response: '{}',
+        createdAt: new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS - 1000)
+      }
+    });
+
+    // Act
+    const response = await request(app)
+      .post('/api/v1/links')
+      .set('Idempotency-Key', 'shared')
+      .send({ targetUrl: 'https://example.com/ours' });
+
+    // Assert: A new link was created in our workspace
+    expect(response.status).toBe(201);
+    expect(response.body.link.targetUrl).toBe('https://example.com/ours');
+  });
+
+  it('should reject an overlong key', async () => {
+    const response = await request(app)
+      .post('/api/v1/links')
+      .set('Idempotency-Key', 'k'.repeat(256))
+      .send({ targetUrl: 'https://example.com' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details[0].field).toBe('Idempotency-Key');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { parseCsv, csvToObjects } from '../src/lib/csv';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+
+describe('Bulk link import', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should parse quoted CSV fields and map them by header', () => {
+    const rows = parseCsv('targetUrl,slug\r\n"https://example.com/?a=1,b=2",quoted\n\nhttps://example.com/"x",\n');
+
+    expect(rows).toEqual([
+      ['targetUrl', 'slug'],
+      ['https://example.com/?a=1,b=2', 'quoted'],
+      ['https://example.com/"x"', '']
+    ]);
+    expect(csvToObjects(rows)).toEqual([
+      { targetUrl: 'https://example.com/?a=1,b=2', slug: 'quoted' },
+      { targetUrl: 'https://example.com/"x"' }
+    ]);
+  });
+
+  it('should import a JSON array and report a result per row', async () => {
+    // Arrange: An existing link to collide with
+    await prismaTest.link.create({
+      data: { slug: 'existing', targetUrl: 'https://example.com/existing' }
+    });
+
+    // Act: Import valid, duplicate, taken and invalid rows
+    const response = await request(app)
+      .post('/api/v1/links/import')
+      .send([
+        { targetUrl: 'https://example.com/one', slug: 'one' },
+        { targetUrl: 'https://example.com/generated' },
+        { targetUrl: 'https://example.com/dup', slug: 'one' },
+        { targetUrl: 'https://example.com/taken', slug: 'existing' },
+        { targetUrl: 'javascript:alert(1)' }
+      ]);
+
+    // Assert: Per-row statuses in input order
+    expect(response.status).toBe(200);
+    expect(response.body.summary).toEqual({ total: 5, created: 2, failed: 3 });
+
+    const results = response.body.results;
+    expect(results.map((r: any) => r.status)).toEqual(['created', 'created', 'error', 'error', 'error']);
+    expect(results[0].link.slug).toBe('one');
+    expect(results[1].link.slug).toMatch(/^[A-Za-z0-9]{7}$/);
+    expect(results[2].error.code).toBe('SLUG_TAKEN');
+    expect(results[3].error.code).toBe('SLUG_TAKEN');
+    expect(results[4].error.code).toBe('VALIDATION_ERROR');
+    expect(results[4].error.details[0].field).toBe('targetUrl');
+
+    expect(await prismaTest.link.count()).toBe(3);
+  });
+
+  it('should import CSV bodies', async () => {
+    const csv = [
+      'targetUrl,slug,maxClicks',
+      'https://example.com/a,csv-a,10',
+      'https://example.com/b,csv-b,'
+    ].join('\n');
+
+    const response = await request(app)
+      .post('/api/v1/links/import')
+      .set('Content-Type', 'text/csv')
+      .send(csv);
+
+    expect(response.status).toBe(200);
+    expect(response.body.summary.created).toBe(2);
+    expect(response.body.results[0].link.maxClicks).toBe(10);
+    expect(response.body.results[1].link.maxClicks).toBeNull();
+  });
+
+  it('should validate without writing in dry-run mode', async () => {
+    const response = await request(app)
+      .post('/api/v1/links/import')
+      .query({ dryRun: 'true' })
+      .send([
+        { targetUrl: 'https://example.com/dry', slug: 'dry' },
+        { targetUrl: 'not-a-url' }
+      ]);
+
+    expect(response.status).toBe(200);
+    expect(response.body.dryRun).toBe(true);
+    expect(response.body.results.map((r: any) => r.status)).toEqual(['valid', 'error']);
+    expect(await prismaTest.link.count()).toBe(0);
+  });
+
+  it('should create nothing in atomic mode when any row fails', async () => {
+    const response = await request(app)
+      .post('/api/v1/links/import')
+      .query({ atomic: 'true' })
+      .send([
+        { targetUrl: 'https://example.com/ok', slug: 'atomic-ok' },
+        { targetUrl: 'https://example.com/bad', slug: 'bad slug' }
+      ]);
+
+    expect(response.status).toBe(422);
+    expect(response.body.error.code).toBe('IMPORT_FAILED');
+    expect(response.body.error.details).toHaveLength(1);
+    expect(response.body.error.details[0].row).toBe(2);
+    expect(await prismaTest.link.count()).toBe(0);
+  });
+
+  it('should create every row in atomic mode when all are valid', async () => {
+    const response = await request(app)
+      .post('/api/v1/links/import')
+      .query({ atomic: 'true' })
+      .send([
+        { targetUrl: 'https://example.com/x', slug: 'atomic-x' },
+        { targetUrl: 'https://example.com/y', slug: 'atomic-y' }
+      ]);
+
+    expect(response.status).toBe(200);
+    expect(response.body.summary).toEqual({ total: 2, created: 2, failed: 0 });
+    expect(await prismaTest.link.count()).toBe(2);
+  });
+
+  it('should reject bodies that are neither CSV nor a JSON array', async () => {
+    const response = await request(app)
+      .post('/api/v1/links/import')
+      .send({ targetUrl: 'https://example.com' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+  });
+});
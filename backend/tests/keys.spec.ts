@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { hashApiKey } from '../src/lib/keys';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+
+describe('API key authentication', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should reject management requests without a valid key but keep redirects public', async () => {
+    // Arrange: A link to redirect to
+    await prismaTest.link.create({
+      data: { slug: 'public', targetUrl: 'https://example.com/public' }
+    });
+
+    // Act: Call the API without a key and with an unknown key, then follow the short link
+    const missing = await request(app).get('/api/v1/links').set('Authorization', '');
+    const invalid = await request(app).get('/api/v1/links').set('Authorization', 'Bearer lsk_nope');
+    const redirect = await request(app).get('/r/public').set('Authorization', '');
+
+    // Assert: 401 envelope with a Bearer challenge; the redirect still works
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect(missing.body.error.code).toBe('UNAUTHORIZED');
+    expect(invalid.status).toBe(401);
+    expect(invalid.body.error.message).toBe('Invalid or revoked API key');
+    expect(redirect.status).toBe(302);
+  });
+
+  it('should create a key, store only its hash and list it without secrets', async () => {
+    // Act: Create a key and list keys
+    const created = await request(app)
+      .post('/api/v1/keys')
+      .send({ name: 'BI dashboard', scopes: ['analytics:read', 'links:read'] });
+    const listed = await request(app).get('/api/v1/keys');
+
+    // Assert: Full key returned once, hash stored, listing has no secrets
+    expect(created.status).toBe(201);
+    expect(created.body.key).toMatch(/^lsk_/);
+    expect(created.body.apiKey).toMatchObject({
+      name: 'BI dashboard',
+      prefix: created.body.key.slice(0, 12),
+      scopes: ['analytics:read', 'links:read'],
+      revokedAt: null
+    });
+
+    const stored = await prismaTest.apiKey.findUnique({ where: { id: created.body.apiKey.id } });
+    expect(stored?.keyHash).toBe(hashApiKey(created.body.key));
+
+    expect(listed.status).toBe(200);
+    expect(listed.body.apiKeys.map((k: any) => k.name)).toContain('BI dashboard');
+    expect(JSON.stringify(listed.body)).not.toContain(created.body.key);
+    expect(JSON.stringify(listed.body)).not.toContain('keyHash');
+  });
+
+  it('should enforce scopes per route', async () => {
+    // Arrange: A read-only analytics key and a link
+    const { body } = await request(app)
+      .post('/api/v1/keys')
+      .send({ name: 'Read only', scopes: ['links:read', 'analytics:read'] });
+    const auth = `Bearer ${body.key}`;
+    const link = await prismaTest.link.create({
+      data: { slug: 'scoped', targetUrl: 'https://example.com/scoped' }
+    });
+
+    // Act: Read, analytics, write and key management with the narrow key
+    const list = await request(app).get('/api/v1/links').set('Authorization', auth);
+    const summary = await request(app).get(`/api/v1/links/${link.id}/analytics/summary`).set('Authorization', auth);
+    const create = await request(app)
+      .post('/api/v1/links')
+      .set('Authorization', auth)
+      .send({ targetUrl: 'https://example.com/nope' });
+    const keys = await request(app).get('/api/v1/keys').set('Authorization', auth);
+
+    // Assert: Reads allowed, writes and key management forbidden
+    expect(list.status).toBe(200);
+    expect(summary.status).toBe(200);
+    expect(create.status).toBe(403);
+    expect(create.body.error).toEqual({ code: 'FORBIDDEN', message: 'API key is missing the links:write scope' });
+    expect(keys.status).toBe(403);
+    expect(await prismaTest.link.count()).toBe(1);
+  });
+
+  it('should stop accepting a key once it is revoked', async () => {
+    // Arrange: A working key
+    const { body } = await request(app)
+      .post('/api/v1/keys')
+      .send({ name: 'Temporary', scopes: ['links:read'] });
+    const auth = `Bearer ${body.key}`;
+    const before = await request(app).get('/api/v1/links').set('Authorization', auth);
+
+    // Act: Revoke it and try again
+    const revoked = await request(app).delete(`/api/v1/keys/${body.apiKey.id}`);
+    const after = await request(app).get('/api/v1/links').set('Authorization', auth);
+
+    // Assert: Revocation is immediate
+    expect(before.status).toBe(200);
+    expect(revoked.status).toBe(200);
+    expect(revoked.body.apiKey.revokedAt).not.toBeNull();
+    expect(after.status).toBe(401);
+  });
+
+  it('should validate key creation and 404 unknown keys', async () => {
+    const badScope = await request(app)
+      .post('/api/v1/keys')
+      .send({ name: 'Bad', scopes: ['links:delete'] });
+    const noScopes = await request(app)
+      .post('/api/v1/keys')
+      .send({ name: 'Empty', scopes: [] });
+    const missing = await request(app).delete('/api/v1/keys/nope');
+
+    expect(badScope.status).toBe(400);
+    expect(badScope.body.error.details[0].field).toBe('scopes.0');
+    expect(noScopes.status).toBe(400);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -81,7 +81,9 @@ describe('Links API functionality', () => {
       expect(new Date(link.createdAt).toISOString()).toBe(link.createdAt);
       
       // Verify no extra properties are exposed
-      expect(Object.keys(link)).toEqual(['id', 'slug', 'targetUrl', 'createdAt']);
+      expect(Object.keys(link)).toEqual(['id', 'slug', 'targetUrl', 'createdAt', 'domain', 'shortUrl', 'tags', 'health']);
+      expect(link.tags).toEqual([]);
+      expect(link.health).toBeNull(); // Not checked yet
     }
     
     // Verify that timestamps are in descending order
@@ -98,7 +100,7 @@ describe('Links API functionality', () => {
 
     // Assert: Empty array response
     expect(response.status).toBe(200);
-    expect(response.body).toEqual({ links: [] });
+    expect(response.body).toEqual({ links: [], total: 0, nextCursor: null });
   });
 
   it('should create link with proper response shape', async () => {
@@ -159,4 +161,150 @@ describe('Links API functionality', () => {
     expect(listResponse.status).toBe(200);
     expect(listResponse.body.links).toHaveLength(5);
   });
+
+  it('should update targetUrl and slug via PATCH', async () => {
+    // Arrange: Create a link with a typo in the target
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'patch-me',
+        targetUrl: 'https://exmaple.com/typo'
+      }
+    });
+
+    // Act: Fix the target and rename the slug
+    const response = await request(app)
+      .patch(`/api/v1/links/${link.id}`)
+      .send({
+        targetUrl: 'https://example.com/fixed',
+        slug: 'patched'
+      });
+
+    // Assert: Updated link is returned with a rebuilt short URL
+    expect(response.status).toBe(200);
+    expect(response.body.link.id).toBe(link.id);
+    expect(response.body.link.slug).toBe('patched');
+    expect(response.body.link.targetUrl).toBe('https://example.com/fixed');
+    expect(response.body.link.shortUrl).toMatch(/^http:\/\/[^\/]+\/r\/patched$/);
+
+    // Assert: The new slug redirects to the new target
+    const redirect = await request(app).get('/r/patched');
+    expect(redirect.status).toBe(302);
+    expect(redirect.headers.location).toBe('https://example.com/fixed');
+  });
+
+  it('should return 409 SLUG_TAKEN when patching to an existing slug', async () => {
+    // Arrange: Two links
+    await prismaTest.link.create({
+      data: { slug: 'taken', targetUrl: 'https://example.com/a' }
+    });
+    const link = await prismaTest.link.create({
+      data: { slug: 'other', targetUrl: 'https://example.com/b' }
+    });
+
+    // Act: Try to take the existing slug
+    const response = await request(app)
+      .patch(`/api/v1/links/${link.id}`)
+      .send({ slug: 'taken' });
+
+    // Assert: Conflict with the same envelope as creation
+    expect(response.status).toBe(409);
+    expect(response.body).toEqual({
+      error: {
+        code: 'SLUG_TAKEN',
+        message: 'Slug already exists'
+      }
+    });
+  });
+
+  it('should validate PATCH bodies with the creation rules', async () => {
+    const link = await prismaTest.link.create({
+      data: { slug: 'validate-patch', targetUrl: 'https://example.com' }
+    });
+
+    // Act: Unsafe protocol and empty body
+    const badUrl = await request(app)
+      .patch(`/api/v1/links/${link.id}`)
+      .send({ targetUrl: 'javascript:alert(1)' });
+    const emptyBody = await request(app)
+      .patch(`/api/v1/links/${link.id}`)
+      .send({});
+
+    // Assert: Both rejected with validation errors
+    expect(badUrl.status).toBe(400);
+    expect(badUrl.body.error.details[0]).toEqual({
+      field: 'targetUrl',
+      message: 'Target URL must use http or https protocol'
+    });
+    expect(emptyBody.status).toBe(400);
+    expect(emptyBody.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 404 when patching a non-existent link', async () => {
+    const response = await request(app)
+      .patch('/api/v1/links/does-not-exist')
+      .send({ targetUrl: 'https://example.com' });
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.code).toBe('NOT_FOUND');
+  });
+
+  it('should paginate the link list with a cursor and report the total', async () => {
+    // Arrange: 5 links with increasing timestamps
+    const baseDate = new Date('2024-01-01T00:00:00.000Z');
+    for (let i = 1; i <= 5; i++) {
+      await prismaTest.link.create({
+        data: {
+          slug: `page-${i}`,
+          targetUrl: `https://example.com/page${i}`,
+          createdAt: new Date(baseDate.getTime() + i * 1000)
+        }
+      });
+    }
+
+    // Act: Walk through the pages two at a time
+    const first = await request(app).get('/api/v1/links').query({ limit: 2 });
+    const second = await request(app).get('/api/v1/links').query({ limit: 2, cursor: first.body.nextCursor });
+    const third = await request(app).get('/api/v1/links').query({ limit: 2, cursor: second.body.nextCursor });
+
+    // Assert: Newest first, every link exactly once, total on every page
+    expect(first.status).toBe(200);
+    expect(first.body.total).toBe(5);
+    expect(first.body.links.map((l: any) => l.slug)).toEqual(['page-5', 'page-4']);
+    expect(second.body.links.map((l: any) => l.slug)).toEqual(['page-3', 'page-2']);
+    expect(third.body.links.map((l: any) => l.slug)).toEqual(['page-1']);
+    expect(third.body.nextCursor).toBeNull();
+    expect(third.body.total).toBe(5);
+  });
+
+  it('should search slug and targetUrl and sort by slug or clicks', async () => {
+    // Arrange: Links with different click counts
+    await prismaTest.link.create({
+      data: { slug: 'alpha', targetUrl: 'https://docs.example.com', clickCount: 5 }
+    });
+    await prismaTest.link.create({
+      data: { slug: 'bravo-docs', targetUrl: 'https://example.com', clickCount: 20 }
+    });
+    await prismaTest.link.create({
+      data: { slug: 'charlie', targetUrl: 'https://other.test', clickCount: 10 }
+    });
+
+    // Act: Search and sort variations
+    const search = await request(app).get('/api/v1/links').query({ q: 'docs', sort: 'slug' });
+    const byClicks = await request(app).get('/api/v1/links').query({ sort: 'clicks' });
+    const bySlugDesc = await request(app).get('/api/v1/links').query({ sort: 'slug', order: 'desc' });
+
+    // Assert: Search matches both columns, sorting applies
+    expect(search.body.total).toBe(2);
+    expect(search.body.links.map((l: any) => l.slug)).toEqual(['alpha', 'bravo-docs']);
+    expect(byClicks.body.links.map((l: any) => l.slug)).toEqual(['bravo-docs', 'charlie', 'alpha']);
+    expect(bySlugDesc.body.links.map((l: any) => l.slug)).toEqual(['charlie', 'bravo-docs', 'alpha']);
+  });
+
+  it('should reject invalid list parameters', async () => {
+    const response = await request(app).get('/api/v1/links').query({ limit: 0, sort: 'random' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    expect(response.body.error.details.map((d: any) => d.field)).toEqual(['limit', 'sort']);
+  });
 });
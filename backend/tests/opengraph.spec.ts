@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+
+const SLACKBOT = 'Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)';
+const BROWSER = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+
+describe('Open Graph social cards', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should serve crawlers the social card and record a bot click', async () => {
+    // Arrange
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({
+        targetUrl: 'https://example.com/launch',
+        slug: 'launch',
+        maxClicks: 1,
+        og: { title: '  Launch "day" <3  ', description: 'Everything & more', image: 'https://cdn.example.com/card.png' }
+      });
+
+    // Act
+    const card = await request(app).get('/r/launch').set('User-Agent', SLACKBOT);
+    const summary = await request(app).get(`/api/v1/links/${created.body.link.id}/analytics/summary`);
+    const visit = await request(app).get('/r/launch').set('User-Agent', BROWSER);
+
+    // Assert: The crawler hit doesn't use up the one-time link
+    expect(created.status).toBe(201);
+    expect(created.body.link.og).toEqual({
+      title: 'Launch "day" <3',
+      description: 'Everything & more',
+      image: 'https://cdn.example.com/card.png'
+    });
+    expect(card.status).toBe(200);
+    expect(card.headers['content-type']).toContain('text/html');
+    expect(card.headers.vary).toContain('User-Agent');
+    expect(card.text).toContain('<meta property="og:title" content="Launch &quot;day&quot; &lt;3">');
+    expect(card.text).toContain('<meta property="og:description" content="Everything &amp; more">');
+    expect(card.text).toContain('<meta property="og:image" content="https://cdn.example.com/card.png">');
+    expect(card.text).toContain('<meta name="twitter:card" content="summary_large_image">');
+    expect(card.text).toMatch(/<meta property="og:url" content="http:\/\/[^"]+\/r\/launch">/);
+    expect(summary.body).toEqual({ total: 0, bots: 1 });
+    expect(visit.status).toBe(302);
+    expect(visit.headers.location).toBe('https://example.com/launch');
+
+    const clicks = await prismaTest.click.findMany({ orderBy: { tsUtc: 'asc' } });
+    expect(clicks.map(click => click.isBot)).toEqual([true, false]);
+    const link = await prismaTest.link.findUniqueOrThrow({ where: { id: created.body.link.id } });
+    expect(link.clickCount).toBe(1);
+  });
+
+  it('should fall back to the destination without overrides', async () => {
+    // Arrange: Page titles are never fetched from private addresses
+    await prismaTest.link.create({
+      data: { slug: 'plain', targetUrl: 'http://127.0.0.1:9/page', workspaceId: 'default', domainId: 'default' }
+    });
+
+    // Act
+    const card = await request(app).get('/r/plain').set('User-Agent', 'facebookexternalhit/1.1');
+
+    // Assert
+    expect(card.status).toBe(200);
+    expect(card.text).toContain('<meta property="og:title" content="127.0.0.1">');
+    expect(card.text).toContain('<meta name="twitter:card" content="summary">');
+    expect(card.text).not.toContain('og:description');
+    expect(card.text).toContain('href="http://127.0.0.1:9/page"');
+  });
+
+  it('should not reveal the destination of protected links', async () => {
+    // Arrange
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/secret-plans', slug: 'secret', password: 'hunter22' });
+
+    // Act
+    const card = await request(app).get('/r/secret').set('User-Agent', 'Twitterbot/1.0');
+
+    // Assert
+    expect(card.status).toBe(200);
+    expect(card.text).toContain('<meta property="og:title" content="Password protected link">');
+    expect(card.text).not.toContain('secret-plans');
+  });
+
+  it('should replace and clear the overrides on update', async () => {
+    // Arrange
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/og', og: { title: 'Old title', description: 'Old description' } });
+    const id = created.body.link.id;
+
+    // Act
+    const replaced = await request(app).patch(`/api/v1/links/${id}`).send({ og: { title: 'New title' } });
+    const cleared = await request(app).patch(`/api/v1/links/${id}`).send({ og: null });
+    const invalid = await request(app)
+      .patch(`/api/v1/links/${id}`)
+      .send({ og: { title: '', image: 'ftp://example.com/card.png' } });
+
+    // Assert
+    expect(replaced.body.link.og).toEqual({ title: 'New title' });
+    expect(cleared.body.link.og).toBeNull();
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.details.map((detail: { field: string }) => detail.field).sort()).toEqual(['og.image', 'og.title']);
+  });
+});
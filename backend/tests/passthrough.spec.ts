@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase } from './setup';
+
+describe('Query passthrough and UTM parameters', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should drop the visitor query string unless forwarding is enabled', async () => {
+    // Arrange
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/page', slug: 'plain' });
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/page?lang=en#top', slug: 'promo', forwardQuery: true });
+
+    // Act
+    const plain = await request(app).get('/r/plain?ref=newsletter');
+    const promo = await request(app).get('/r/promo?ref=newsletter&lang=de&tag=a&tag=b');
+
+    // Assert: Forwarded parameters are merged, but never replace the target's own
+    expect(plain.headers.location).toBe('https://example.com/page');
+    expect(promo.headers.location).toBe('https://example.com/page?lang=en&ref=newsletter&tag=a&tag=b#top');
+  });
+
+  it('should store UTM fields and append them on redirect', async () => {
+    // Arrange
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({
+        targetUrl: 'https://example.com/sale?utm_source=old',
+        slug: 'sale',
+        forwardQuery: true,
+        utm: { source: 'newsletter', medium: 'email', campaign: 'spring sale' }
+      });
+
+    // Act: A visitor tries to override the UTM source
+    const response = await request(app).get('/r/sale?utm_source=spoofed&ref=x');
+
+    // Assert
+    expect(created.status).toBe(201);
+    expect(created.body.link).toMatchObject({
+      forwardQuery: true,
+      utm: { source: 'newsletter', medium: 'email', campaign: 'spring sale' }
+    });
+    expect(response.headers.location).toBe(
+      'https://example.com/sale?utm_source=newsletter&utm_medium=email&utm_campaign=spring+sale&ref=x'
+    );
+  });
+
+  it('should replace or clear UTM fields on update', async () => {
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'utm', utm: { source: 'a', term: 'b' } });
+    const id = created.body.link.id;
+
+    const replaced = await request(app).patch(`/api/v1/links/${id}`).send({ utm: { medium: 'social' } });
+    const untouched = await request(app).patch(`/api/v1/links/${id}`).send({ forwardQuery: true });
+    const cleared = await request(app).patch(`/api/v1/links/${id}`).send({ utm: null });
+    const invalid = await request(app).patch(`/api/v1/links/${id}`).send({ utm: { source: ' ' } });
+
+    expect(replaced.body.link.utm).toEqual({ medium: 'social' });
+    expect(untouched.body.link).toMatchObject({ forwardQuery: true, utm: { medium: 'social' } });
+    expect(cleared.body.link.utm).toBeNull();
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.details[0].field).toBe('utm.source');
+  });
+
+  it('should keep the query string through the password form', async () => {
+    // Arrange
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'locked', password: 'secret', forwardQuery: true });
+
+    // Act
+    const form = await request(app).get('/r/locked?ref=chat');
+    const submitted = await request(app)
+      .post('/r/locked?ref=chat')
+      .type('form')
+      .send({ password: 'secret' });
+
+    // Assert
+    expect(form.text).toContain('action="/r/locked?ref=chat"');
+    expect(submitted.status).toBe(303);
+    expect(submitted.headers.location).toBe('https://example.com/?ref=chat');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { hashPassword, verifyPassword } from '../src/lib/password';
+import { MAX_FAILED_ATTEMPTS } from '../src/lib/attempts';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+
+describe('Password-protected links', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should hash passwords with a random salt and verify them', () => {
+    const first = hashPassword('hunter22');
+    const second = hashPassword('hunter22');
+
+    expect(first).not.toBe(second);
+    expect(first).not.toContain('hunter22');
+    expect(verifyPassword('hunter22', first)).toBe(true);
+    expect(verifyPassword('wrong', first)).toBe(false);
+  });
+
+  it('should store only a hash when creating a protected link', async () => {
+    // Act: Create a link with a password
+    const response = await request(app)
+      .post('/api/v1/links')
+      .send({
+        targetUrl: 'https://example.com/preview',
+        slug: 'preview',
+        password: 'let-me-in'
+      });
+
+    // Assert: Password is never echoed back and is stored hashed
+    expect(response.status).toBe(201);
+    expect(response.body.link.passwordProtected).toBe(true);
+    expect(JSON.stringify(response.body)).not.toContain('let-me-in');
+
+    const stored = await prismaTest.link.findFirst({ where: { slug: 'preview' } });
+    expect(stored?.passwordHash).toMatch(/^scrypt\$/);
+  });
+
+  it('should serve a password form instead of redirecting', async () => {
+    // Arrange: Protected link
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'protected-get',
+        targetUrl: 'https://example.com/internal',
+        passwordHash: hashPassword('secret-pass')
+      }
+    });
+
+    // Act: Visit the short link
+    const response = await request(app).get('/r/protected-get');
+
+    // Assert: HTML form, no redirect and no click
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/text\/html/);
+    expect(response.text).toContain('<form method="post" action="/r/protected-get">');
+    expect(response.text).not.toContain('https://example.com/internal');
+    expect(await prismaTest.click.count({ where: { linkId: link.id } })).toBe(0);
+  });
+
+  it('should redirect and record a click after the right password is posted', async () => {
+    // Arrange: Protected link
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'protected-post',
+        targetUrl: 'https://example.com/internal',
+        passwordHash: hashPassword('secret-pass')
+      }
+    });
+
+    // Act: Post a wrong and then the right password
+    const wrong = await request(app)
+      .post('/r/protected-post')
+      .type('form')
+      .send({ password: 'nope' });
+    const right = await request(app)
+      .post('/r/protected-post')
+      .type('form')
+      .send({ password: 'secret-pass' });
+
+    // Assert: Only the right password redirects and records a click
+    expect(wrong.status).toBe(401);
+    expect(wrong.text).toContain('Incorrect password');
+    expect(right.status).toBe(303);
+    expect(right.headers.location).toBe('https://example.com/internal');
+    expect(await prismaTest.click.count({ where: { linkId: link.id } })).toBe(1);
+  });
+
+  it('should rate-limit failed attempts per slug', async () => {
+    // Arrange: Protected link
+    await prismaTest.link.create({
+      data: {
+        slug: 'protected-limit',
+        targetUrl: 'https://example.com/internal',
+        passwordHash: hashPassword('secret-pass')
+      }
+    });
+
+    // Act: Use up the allowed failures, then try the right password
+    for (let i = 0; i < MAX_FAILED_ATTEMPTS; i++) {
+      await request(app).post('/r/protected-limit').type('form').send({ password: `guess-${i}` });
+    }
+    const blocked = await request(app)
+      .post('/r/protected-limit')
+      .type('form')
+      .send({ password: 'secret-pass' });
+
+    // Assert: Locked out with a Retry-After hint
+    expect(blocked.status).toBe(429);
+    expect(Number(blocked.headers['retry-after'])).toBeGreaterThan(0);
+  });
+});
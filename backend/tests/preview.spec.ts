@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+import { parsePageMeta } from '../src/lib/pagemeta';
+import { hashPassword } from '../src/lib/password';
+
+// Preview fetches never reach private addresses, so links pointing at one get
+// a preview without a title and the tests don't depend on the network
+const LOCAL_TARGET = 'http://127.0.0.1:9/page';
+
+// Helper function to create a link directly, bypassing the destination check
+function createLocalLink(slug: string) {
+  return prismaTest.link.create({
+    data: { slug, targetUrl: LOCAL_TARGET, workspaceId: 'default', domainId: 'default' }
+  });
+}
+
+describe('Link previews', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should read the title and icon of a page', () => {
+    // Arrange
+    const html = `<html><head>
+      <title>
+        Docs &amp; Guides
+      </title>
+      <link rel="shortcut icon" href="/static/icon.png?v=2&amp;x=1">
+    </head></html>`;
+
+    // Act
+    const meta = parsePageMeta(html, 'https://example.com/docs/start');
+    const fallback = parsePageMeta('<meta property="og:title" content="Shared &#39;page&#39;">', 'https://example.com/a/b');
+
+    // Assert
+    expect(meta).toEqual({ title: 'Docs & Guides', iconUrl: 'https://example.com/static/icon.png?v=2&x=1' });
+    expect(fallback).toEqual({ title: "Shared 'page'", iconUrl: 'https://example.com/favicon.ico' });
+  });
+
+  it('should show the preview without recording a click', async () => {
+    // Arrange
+    await createLocalLink('docs');
+
+    // Act
+    const preview = await request(app).get('/p/docs');
+    const plusPreview = await request(app).get('/r/docs+?ref=mail');
+    const redirect = await request(app).get('/r/docs');
+
+    // Assert: Only the real visit counts
+    expect(preview.status).toBe(200);
+    expect(preview.headers['content-type']).toContain('text/html');
+    expect(preview.text).toContain(LOCAL_TARGET);
+    expect(preview.text).toContain('href="/r/docs"');
+    expect(plusPreview.status).toBe(200);
+    expect(plusPreview.text).toContain('href="/r/docs?ref=mail"');
+    expect(redirect.status).toBe(302);
+    expect(await prismaTest.click.count()).toBe(1);
+  });
+
+  it('should send every visitor through the preview with forcePreview', async () => {
+    // Arrange
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/landing', slug: 'landing', forwardQuery: true });
+    await prismaTest.link.update({ where: { id: created.body.link.id }, data: { targetUrl: LOCAL_TARGET } });
+    const patched = await request(app)
+      .patch(`/api/v1/links/${created.body.link.id}`)
+      .send({ forcePreview: true });
+
+    // Act
+    const preview = await request(app).get('/r/landing?ref=mail');
+    const continued = await request(app).get('/r/landing?ref=mail&_continue=1');
+
+    // Assert: The continue parameter is not forwarded to the target
+    expect(created.body.link.forcePreview).toBe(false);
+    expect(patched.body.link.forcePreview).toBe(true);
+    expect(preview.status).toBe(200);
+    expect(preview.text).toContain('href="/r/landing?ref=mail&amp;_continue=1"');
+    expect(continued.status).toBe(302);
+    expect(continued.headers.location).toBe(`${LOCAL_TARGET}?ref=mail`);
+    expect(await prismaTest.click.count()).toBe(1);
+  });
+
+  it('should not reveal the destinations of password-protected links', async () => {
+    // Arrange: A protected link with a rule target as well
+    await prismaTest.link.create({
+      data: {
+        slug: 'secret',
+        targetUrl: LOCAL_TARGET,
+        passwordHash: hashPassword('let-me-in'),
+        forcePreview: true,
+        workspaceId: 'default',
+        domainId: 'default',
+        rules: { create: { position: 0, targetUrl: 'http://127.0.0.1:9/mobile', devices: 'mobile' } }
+      }
+    });
+
+    // Act
+    const preview = await request(app).get('/p/secret');
+    const plusPreview = await request(app).get('/r/secret+');
+    const forced = await request(app).get('/r/secret');
+    const continued = await request(app).get('/r/secret?_continue=1');
+
+    // Assert: Previews say the link is protected; continuing asks for the password
+    for (const response of [preview, plusPreview, forced]) {
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('password protected');
+      expect(response.text).not.toContain('127.0.0.1');
+    }
+    expect(preview.text).toContain('href="/r/secret?_continue=1"');
+    expect(continued.text).toContain('name="password"');
+    expect(continued.text).not.toContain('127.0.0.1');
+    expect(await prismaTest.click.count()).toBe(0);
+  });
+
+  it('should not preview missing links', async () => {
+    // Act
+    const preview = await request(app).get('/p/missing');
+    const plusPreview = await request(app).get('/r/missing+');
+
+    // Assert
+    expect(preview.status).toBe(404);
+    expect(plusPreview.status).toBe(404);
+  });
+});
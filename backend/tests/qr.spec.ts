@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase } from './setup';
+import { encodeQr } from '../src/lib/qr';
+import { decodePng, encodePng } from '../src/lib/png';
+
+// Helper function to create a link and return its id
+async function createLink(slug: string) {
+  const response = await request(app)
+    .post('/api/v1/links')
+    .send({ targetUrl: 'https://example.com/poster', slug });
+  return response.body.link.id as string;
+}
+
+// Helper function to build a data: URL of a small solid PNG logo
+function pngLogo() {
+  const pixels = Buffer.alloc(8 * 8 * 4, 0xff);
+  return `data:image/png;base64,${encodePng({ width: 8, height: 8, data: pixels }).toString('base64')}`;
+}
+
+describe('QR codes', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should encode text in the smallest version that fits', () => {
+    // Act
+    const small = encodeQr('sho.rt/r/a', 'M');
+    const larger = encodeQr('https://example.com/r/spring-sale', 'H');
+
+    // Assert: Version 1 is 21 modules wide, every version adds 4
+    expect(small.size).toBe(21);
+    expect(larger.size).toBeGreaterThan(21);
+    for (const code of [small, larger]) {
+      const corner = code.size - 7;
+      // Finder patterns: dark outer ring, light ring, dark center
+      for (const [x, y] of [[0, 0], [corner, 0], [0, corner]]) {
+        expect(code.modules[y][x]).toBe(true);
+        expect(code.modules[y + 1][x + 1]).toBe(false);
+        expect(code.modules[y + 3][x + 3]).toBe(true);
+      }
+      // Dark module next to the bottom left finder
+      expect(code.modules[code.size - 8][8]).toBe(true);
+    }
+  });
+
+  it('should render the short URL as SVG by default', async () => {
+    // Arrange
+    const id = await createLink('poster');
+
+    // Act
+    const response = await request(app).get(`/api/v1/links/${id}/qr?fg=%231a2b3c&bg=fff`);
+
+    // Assert
+    const svg = response.body.toString();
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('image/svg+xml');
+    expect(response.headers['content-disposition']).toBe('inline; filename="poster-qr.svg"');
+    expect(svg).toContain('width="256" height="256"');
+    expect(svg).toContain('fill="#1a2b3c"');
+    expect(svg).toContain('fill="#ffffff"');
+    expect(svg).not.toContain('<image');
+  });
+
+  it('should render PNGs at the requested size and margin', async () => {
+    // Arrange
+    const id = await createLink('poster');
+
+    // Act
+    const response = await request(app).get(`/api/v1/links/${id}/qr?format=png&size=100&margin=0&fg=ff0000&level=L`);
+
+    // Assert: Without a margin the top left finder starts at the first pixel
+    const image = decodePng(response.body);
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/png');
+    expect(image.width).toBe(100);
+    expect(image.height).toBe(100);
+    expect([...image.data.subarray(0, 4)]).toEqual([255, 0, 0, 255]);
+  });
+
+  it('should draw a center logo', async () => {
+    // Arrange
+    const id = await createLink('poster');
+    const logo = encodeURIComponent(pngLogo());
+
+    // Act
+    const svg = await request(app).get(`/api/v1/links/${id}/qr?logo=${logo}`);
+    const png = await request(app).get(`/api/v1/links/${id}/qr?format=png&size=200&logo=${logo}&level=Q`);
+
+    // Assert
+    expect(svg.status).toBe(200);
+    expect(svg.body.toString()).toContain('<image href="data:image/png;base64,');
+    expect(png.status).toBe(200);
+    expect(decodePng(png.body).width).toBe(200);
+  });
+
+  it('should reject invalid options', async () => {
+    // Arrange
+    const id = await createLink('poster');
+    const svgLogo = encodeURIComponent(`data:image/svg+xml;base64,${Buffer.from('<svg/>').toString('base64')}`);
+
+    // Act
+    const tooLarge = await request(app).get(`/api/v1/links/${id}/qr?size=5000`);
+    const badColor = await request(app).get(`/api/v1/links/${id}/qr?fg=red`);
+    const logoLevel = await request(app).get(`/api/v1/links/${id}/qr?level=L&logo=${encodeURIComponent(pngLogo())}`);
+    const pngWithSvgLogo = await request(app).get(`/api/v1/links/${id}/qr?format=png&logo=${svgLogo}`);
+    const missing = await request(app).get('/api/v1/links/missing/qr');
+
+    // Assert
+    expect(tooLarge.status).toBe(400);
+    expect(tooLarge.body.error.details[0].field).toBe('size');
+    expect(badColor.status).toBe(400);
+    expect(logoLevel.body.error.details[0].field).toBe('level');
+    expect(pngWithSvgLogo.body.error.details[0].field).toBe('logo');
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase } from './setup';
+import { rateLimit } from '../src/middleware/ratelimit';
+import { errorHandler } from '../src/middleware/error';
+
+// A small per-IP budget, so spending it takes few requests (set before env.ts loads)
+vi.hoisted(() => {
+  process.env.API_IP_RATE_LIMIT = '20';
+});
+
+// Small app with a budget of two requests per X-Client header
+function limitedApp() {
+  const limited = express();
+  limited.get('/', rateLimit({
+    name: 'test',
+    limit: 2,
+    windowMs: 60 * 1000,
+    key: (req) => req.get('X-Client') || 'anonymous'
+  }), (req, res) => {
+    res.json({ ok: true });
+  });
+  limited.use(errorHandler);
+  return limited;
+}
+
+describe('Rate limiting', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should answer 429 with Retry-After once the budget is spent', async () => {
+    const limited = limitedApp();
+
+    // Act: Three requests from the same client
+    const first = await request(limited).get('/').set('X-Client', 'a');
+    const second = await request(limited).get('/').set('X-Client', 'a');
+    const third = await request(limited).get('/').set('X-Client', 'a');
+
+    // Assert: The third is rejected in the usual error envelope
+    expect(first.status).toBe(200);
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+    expect(second.status).toBe(200);
+    expect(second.headers['ratelimit-remaining']).toBe('0');
+    expect(third.status).toBe(429);
+    expect(third.body.error.code).toBe('RATE_LIMITED');
+    expect(third.body.error.message).toMatch(/^Too many requests/);
+    expect(Number(third.headers['retry-after'])).toBeGreaterThan(0);
+    expect(Number(third.headers['retry-after'])).toBeLessThanOrEqual(60);
+  });
+
+  it('should keep separate budgets per key', async () => {
+    const limited = limitedApp();
+
+    // Arrange: Spend client a's budget
+    await request(limited).get('/').set('X-Client', 'a');
+    await request(limited).get('/').set('X-Client', 'a');
+
+    // Act
+    const a = await request(limited).get('/').set('X-Client', 'a');
+    const b = await request(limited).get('/').set('X-Client', 'b');
+
+    // Assert
+    expect(a.status).toBe(429);
+    expect(b.status).toBe(200);
+  });
+
+  it('should report the budget on management API and redirect responses', async () => {
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'limited' });
+
+    const api = await request(app).get('/api/v1/links');
+    const redirect = await request(app).get('/r/limited');
+
+    expect(api.headers['ratelimit-limit']).toBe('300');
+    expect(redirect.status).toBe(302);
+    expect(redirect.headers['ratelimit-limit']).toBe('120');
+  });
+
+  it('should throttle requests with invalid keys per client IP', async () => {
+    // Act: Guess keys until the client's budget is spent
+    const statuses: number[] = [];
+    for (let i = 0; i < 20; i++) {
+      const response = await request(app)
+        .get('/api/v1/links')
+        .set('Authorization', `Bearer guess-${i}`);
+      statuses.push(response.status);
+    }
+
+    // Assert: Failed attempts count towards the budget until they are rejected unchecked
+    expect(statuses[0]).toBe(401);
+    expect(statuses[statuses.length - 1]).toBe(429);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+
+describe('Redirect status codes', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should redirect with the configured status code', async () => {
+    // Arrange
+    const temporary = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/temp', slug: 'temp' });
+    const permanent = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/vanity', slug: 'vanity', redirectType: 301 });
+
+    // Act
+    const temporaryRedirect = await request(app).get('/r/temp');
+    const permanentRedirect = await request(app).get('/r/vanity');
+
+    // Assert
+    expect(temporary.body.link.redirectType).toBe(302);
+    expect(permanent.body.link.redirectType).toBe(301);
+    expect(temporaryRedirect.status).toBe(302);
+    expect(permanentRedirect.status).toBe(301);
+    expect(permanentRedirect.headers.location).toBe('https://example.com/vanity');
+  });
+
+  it('should redirect other methods only for 307 and 308 links', async () => {
+    // Arrange: A form endpoint link, switched to 308 later
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/api/hook', slug: 'hook', redirectType: 307 });
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'plain' });
+
+    // Act
+    const posted = await request(app).post('/r/hook').send({ event: 'ping' });
+    const put = await request(app).put('/r/hook').send({ event: 'ping' });
+    const patched = await request(app)
+      .patch(`/api/v1/links/${created.body.link.id}`)
+      .send({ redirectType: 308 });
+    const deleted = await request(app).delete('/r/hook');
+    const notAllowed = await request(app).delete('/r/plain');
+    const postedPlain = await request(app).post('/r/plain');
+
+    // Assert: Each followed request is a click; 405 ones are not
+    expect(posted.status).toBe(307);
+    expect(posted.headers.location).toBe('https://example.com/api/hook');
+    expect(put.status).toBe(307);
+    expect(patched.body.link.redirectType).toBe(308);
+    expect(deleted.status).toBe(308);
+    expect(notAllowed.status).toBe(405);
+    expect(notAllowed.headers.allow).toBe('GET, HEAD, POST');
+    expect(postedPlain.status).toBe(303);
+    expect(await prismaTest.click.count()).toBe(4);
+  });
+
+  it('should keep 303 after the password form and reject unknown codes', async () => {
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'locked', password: 'secret', redirectType: 308 });
+
+    const put = await request(app).put('/r/locked');
+    const submitted = await request(app).post('/r/locked').type('form').send({ password: 'secret' });
+    const invalid = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', redirectType: 303 });
+
+    expect(put.status).toBe(405);
+    expect(submitted.status).toBe(303);
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.details[0].field).toBe('redirectType');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll, vi } from 'vitest';
+import { writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+import { Env } from '../src/env';
+import { detectClient, preferredLanguage } from '../src/lib/rules';
+import { lookupCountry, refreshGeoIpDatabase } from '../src/lib/geoip';
+
+const geoIpPath = join(tmpdir(), `geoip-${process.pid}.csv`);
+
+const IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148';
+const ANDROID_PHONE = 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Chrome/120.0 Mobile Safari/537.36';
+const ANDROID_TABLET = 'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 Chrome/120.0 Safari/537.36';
+const MAC = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Version/17.0 Safari/605.1.15';
+
+describe('Redirect rules', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+    // Test requests come from 127.0.0.1
+    writeFileSync(geoIpPath, [
+      'start_ip,end_ip,country',
+      '1.0.0.0,1.0.0.255,AU',
+      '127.0.0.0,127.255.255.255,DE',
+      '2001:db8::/32,FR'
+    ].join('\n'));
+    Object.assign(Env, { GEOIP_FILE: geoIpPath });
+    await refreshGeoIpDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    Object.assign(Env, { GEOIP_FILE: '' });
+    rmSync(geoIpPath, { force: true });
+    await teardownTestDatabase();
+  });
+
+  it('should detect OS, device, language and country', () => {
+    expect(detectClient(IPHONE)).toEqual({ os: 'ios', device: 'mobile' });
+    expect(detectClient(ANDROID_PHONE)).toEqual({ os: 'android', device: 'mobile' });
+    expect(detectClient(ANDROID_TABLET)).toEqual({ os: 'android', device: 'tablet' });
+    expect(detectClient(MAC)).toEqual({ os: 'macos', device: 'desktop' });
+    expect(detectClient('')).toEqual({ os: null, device: 'desktop' });
+
+    expect(preferredLanguage('en;q=0.5, de-AT, de;q=0.9')).toBe('de-at');
+    expect(preferredLanguage('*')).toBeNull();
+
+    expect(lookupCountry('1.0.0.7')).toBe('AU');
+    expect(lookupCountry('::ffff:127.0.0.1')).toBe('DE');
+    expect(lookupCountry('2001:db8:ffff::1')).toBe('FR');
+    expect(lookupCountry('8.8.8.8')).toBeNull();
+  });
+
+  it('should send each platform to its store and record the matched rule', async () => {
+    // Arrange
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({
+        targetUrl: 'https://example.com/app',
+        slug: 'get-app',
+        rules: [
+          { targetUrl: 'https://apps.apple.com/app/id1', os: ['ios'] },
+          { targetUrl: 'https://play.google.com/store/apps/details?id=app', os: ['android'] }
+        ]
+      });
+
+    // Act
+    const iphone = await request(app).get('/r/get-app').set('User-Agent', IPHONE);
+    const android = await request(app).get('/r/get-app').set('User-Agent', ANDROID_PHONE);
+    const desktop = await request(app).get('/r/get-app').set('User-Agent', MAC);
+
+    // Assert
+    const { rules } = created.body.link;
+    expect(created.status).toBe(201);
+    expect(rules).toHaveLength(2);
+    expect(rules[0]).toEqual({ id: expect.any(String), targetUrl: 'https://apps.apple.com/app/id1', os: ['ios'] });
+    expect(iphone.headers.location).toBe('https://apps.apple.com/app/id1');
+    expect(iphone.headers.vary).toContain('User-Agent');
+    expect(android.headers.location).toBe('https://play.google.com/store/apps/details?id=app');
+    expect(desktop.headers.location).toBe('https://example.com/app');
+
+    const clicks = await prismaTest.click.findMany({ orderBy: { tsUtc: 'asc' } });
+    expect(clicks.map(click => click.ruleId)).toEqual([rules[0].id, rules[1].id, null]);
+  });
+
+  it('should match language and country, first matching rule wins', async () => {
+    await request(app)
+      .post('/api/v1/links')
+      .send({
+        targetUrl: 'https://example.com',
+        slug: 'geo',
+        rules: [
+          { targetUrl: 'https://example.com/fr', countries: ['fr'] },
+          { targetUrl: 'https://example.com/de-mobile', countries: ['DE'], devices: ['mobile'] },
+          { targetUrl: 'https://example.com/de', languages: ['de'] }
+        ]
+      });
+
+    const germanDesktop = await request(app).get('/r/geo').set('Accept-Language', 'de-AT,en;q=0.5');
+    const germanPhone = await request(app).get('/r/geo').set('User-Agent', IPHONE);
+    const english = await request(app).get('/r/geo').set('Accept-Language', 'en-US');
+
+    expect(germanDesktop.headers.location).toBe('https://example.com/de');
+    expect(germanPhone.headers.location).toBe('https://example.com/de-mobile');
+    expect(english.headers.location).toBe('https://example.com');
+  });
+
+  it('should replace rules on update and validate them', async () => {
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'swap', rules: [{ targetUrl: 'https://example.com/ios', os: ['ios'] }] });
+    const id = created.body.link.id;
+
+    const replaced = await request(app)
+      .patch(`/api/v1/links/${id}`)
+      .send({ rules: [{ targetUrl: 'https://example.com/tablet', devices: ['tablet'] }] });
+    const empty = await request(app)
+      .patch(`/api/v1/links/${id}`)
+      .send({ rules: [{ targetUrl: 'https://example.com/any' }] });
+    const badOs = await request(app)
+      .patch(`/api/v1/links/${id}`)
+      .send({ rules: [{ targetUrl: 'https://example.com', os: ['symbian'] }] });
+    const blocked = await request(app)
+      .patch(`/api/v1/links/${id}`)
+      .send({ rules: [{ targetUrl: 'http://127.0.0.1/admin', os: ['ios'] }] });
+    const cleared = await request(app).patch(`/api/v1/links/${id}`).send({ rules: [] });
+
+    expect(replaced.body.link.rules).toEqual([
+      { id: expect.any(String), targetUrl: 'https://example.com/tablet', devices: ['tablet'] }
+    ]);
+    expect(empty.status).toBe(400);
+    expect(badOs.status).toBe(400);
+    expect(badOs.body.error.details[0].field).toBe('rules.0.os.0');
+    expect(blocked.status).toBe(400);
+    expect(blocked.body.error.code).toBe('DESTINATION_BLOCKED');
+    expect(cleared.body.link.rules).toEqual([]);
+    expect(await prismaTest.redirectRule.count()).toBe(0);
+  });
+
+  it('should treat countries as unknown when the GeoIP file is missing', async () => {
+    // Arrange: A country rule, with GEOIP_FILE pointing at a file that doesn't exist
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'geo', rules: [{ targetUrl: 'https://example.com/de', countries: ['DE'] }] });
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    Object.assign(Env, { GEOIP_FILE: `${geoIpPath}.missing` });
+
+    try {
+      // Act: Load the file twice, then redirect
+      await refreshGeoIpDatabase();
+      await refreshGeoIpDatabase();
+      const response = await request(app).get('/r/geo');
+
+      // Assert: The default target, and the failure logged once
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('https://example.com');
+      expect(lookupCountry('127.0.0.1')).toBeNull();
+      expect(logged).toHaveBeenCalledTimes(1);
+    } finally {
+      logged.mockRestore();
+      Object.assign(Env, { GEOIP_FILE: geoIpPath });
+      await refreshGeoIpDatabase();
+    }
+  });
+});
@@ -3,6 +3,7 @@ import { execSync } from 'child_process';
 import { join } from 'path';
 import { beforeAll, afterAll } from 'vitest';
 import { unlinkSync } from 'fs';
+import { createHash } from 'crypto';
 
 // Use a test-specific database
 const testDbPath = join(__dirname, '../test.db');
@@ -16,6 +17,15 @@ export const prismaTest = new PrismaClient({
   }
 });
 
+// All-scopes API key that test-app.ts sends when a request sets no
+// Authorization header. Hashed like lib/keys.ts hashApiKey (not imported
+// here so src/db.ts is not loaded before DATABASE_URL is set).
+// The key belongs to an owner of the default workspace, so links created
+// directly through prismaTest are visible to it.
+export const TEST_API_KEY = 'lsk_test-suite-key';
+export const TEST_USER_ID = 'test-suite-user';
+const TEST_API_KEY_ID = 'test-suite-key';
+
 let isSetup = false;
 
 // Global setup that runs once before all tests
@@ -39,6 +49,25 @@ beforeAll(async () => {
     
     // Ensure prisma client is connected
     await prismaTest.$connect();
+    
+    await prismaTest.user.create({
+      data: {
+        id: TEST_USER_ID,
+        email: 'test-suite@example.com',
+        memberships: { create: { workspaceId: 'default', role: 'owner' } }
+      }
+    });
+    await prismaTest.apiKey.create({
+      data: {
+        id: TEST_API_KEY_ID,
+        name: 'Test suite',
+        userId: TEST_USER_ID,
+        workspaceId: 'default',
+        prefix: TEST_API_KEY.slice(0, 12),
+        keyHash: createHash('sha256').update(TEST_API_KEY).digest('hex'),
+        scopes: 'links:read,links:write,analytics:read,keys:manage,workspace:manage'
+      }
+    });
     isSetup = true;
   } catch (error) {
     console.error('Failed to setup test database:', error);
@@ -51,6 +80,10 @@ afterAll(async () => {
   try {
     await prismaTest.$disconnect();
     
+    // The app's shared client (src/db.ts) outlives this file's module graph,
+    // so drop its connection before the database file is removed
+    await globalThis.__prisma?.$disconnect();
+    
     // Clean up test database file
     try {
       unlinkSync(testDbPath);
@@ -73,6 +106,19 @@ export async function cleanupTestDatabase() {
     // Clean all data between tests
     await prismaTest.click.deleteMany({});
     await prismaTest.link.deleteMany({});
+    await prismaTest.webhook.deleteMany({});
+    await prismaTest.tag.deleteMany({});
+    await prismaTest.domain.deleteMany({ where: { id: { not: 'default' } } });
+    await prismaTest.idempotencyKey.deleteMany({});
+    await prismaTest.counter.deleteMany({});
+    await prismaTest.apiKey.deleteMany({ where: { id: { not: TEST_API_KEY_ID } } });
+    await prismaTest.workspace.deleteMany({ where: { id: { not: 'default' } } });
+    await prismaTest.user.deleteMany({ where: { id: { not: TEST_USER_ID } } });
+    await prismaTest.membership.upsert({
+      where: { userId_workspaceId: { userId: TEST_USER_ID, workspaceId: 'default' } },
+      create: { userId: TEST_USER_ID, workspaceId: 'default', role: 'owner' },
+      update: { role: 'owner' }
+    });
   } catch (error) {
     console.error('Failed to cleanup test database:', error);
     throw error;
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase } from './setup';
+import {
+  randomSlug,
+  wordSlug,
+  hashSlug,
+  encodeCounter,
+  generateSlug,
+  recordSlugOutcome
+} from '../src/lib/slug';
+
+describe('Slug generation strategies', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should generate random slugs with the given length and alphabet', () => {
+    expect(randomSlug()).toMatch(/^[0-9A-Za-z]{7}$/);
+    expect(randomSlug(12, 'ab')).toMatch(/^[ab]{12}$/);
+  });
+
+  it('should generate readable word slugs', () => {
+    expect(wordSlug()).toMatch(/^[a-z]+-[a-z]+-[a-z]+$/);
+    expect(wordSlug(2)).toMatch(/^[a-z]+-[a-z]+$/);
+  });
+
+  it('should hash the same URL to the same slug', () => {
+    const slug = hashSlug('https://example.com/a');
+
+    expect(slug).toMatch(/^[0-9A-Za-z]{7}$/);
+    expect(hashSlug('https://example.com/a')).toBe(slug);
+    expect(hashSlug('https://example.com/b')).not.toBe(slug);
+    expect(hashSlug('https://example.com/a', 9).startsWith(slug)).toBe(true);
+  });
+
+  it('should hash slugs longer than one digest covers', () => {
+    const slug = hashSlug('https://example.com/a', 64);
+
+    expect(slug).toMatch(/^[0-9A-Za-z]{64}$/);
+    expect(slug.startsWith(hashSlug('https://example.com/a', 42))).toBe(true);
+  });
+
+  it('should encode counter values as distinct padded slugs', () => {
+    const slugs = Array.from({ length: 200 }, (_, value) => encodeCounter(value));
+
+    expect(new Set(slugs).size).toBe(200);
+    expect(slugs.every(slug => slug.length === 7)).toBe(true);
+    expect(encodeCounter(62 ** 3, 2)).toHaveLength(4);
+  });
+
+  it('should create links with the requested strategy', async () => {
+    // Act
+    const words = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/words', slugStrategy: 'words' });
+    const first = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/count', slugStrategy: 'counter' });
+    const second = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/count', slugStrategy: 'counter' });
+    const hashed = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/hash', slugStrategy: 'hash' });
+    const invalid = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slugStrategy: 'emoji' });
+
+    // Assert
+    expect(words.body.link.slug).toMatch(/^[a-z]+-[a-z]+-[a-z]+$/);
+    expect(first.body.link.slug).toBe(encodeCounter(1));
+    expect(second.body.link.slug).toBe(encodeCounter(2));
+    expect(hashed.body.link.slug).toBe(hashSlug('https://example.com/hash'));
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.details[0].field).toBe('slugStrategy');
+  });
+
+  it('should retry collisions with a longer slug instead of failing', async () => {
+    // Arrange: The URL's hash slug is already taken as a custom slug
+    const targetUrl = 'https://example.com/popular';
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/other', slug: hashSlug(targetUrl) });
+
+    // Act: Shorten the URL twice with the hash strategy
+    const first = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl, slugStrategy: 'hash' });
+    const second = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl, slugStrategy: 'hash' });
+
+    // Assert: Both got a unique, one character longer slug
+    expect(first.status).toBe(201);
+    expect(first.body.link.slug).toHaveLength(8);
+    expect(second.status).toBe(201);
+    expect(second.body.link.slug).not.toBe(first.body.link.slug);
+  });
+
+  it('should lengthen generated slugs once collisions get frequent', async () => {
+    const before = await generateSlug({ strategy: 'random', targetUrl: 'https://example.com', attempt: 0 });
+
+    // 20% of the last 100 generated slugs collided
+    for (let i = 0; i < 100; i++) {
+      recordSlugOutcome('random', i % 5 === 0);
+    }
+    const after = await generateSlug({ strategy: 'random', targetUrl: 'https://example.com', attempt: 0 });
+
+    expect(before).toHaveLength(7);
+    expect(after).toHaveLength(8);
+  });
+
+  it('should not count shortening the same URL again as a collision', async () => {
+    // Act: Every repeat lands on the URL's own hash slug first
+    const responses = [];
+    for (let i = 0; i < 101; i++) {
+      responses.push(await request(app)
+        .post('/api/v1/links')
+        .send({ targetUrl: 'https://example.com/again', slugStrategy: 'hash' }));
+    }
+
+    // Assert: Repeats retry one character longer, and hash slugs didn't grow
+    expect(responses.every(response => response.status === 201)).toBe(true);
+    expect(responses[0].body.link.slug).toHaveLength(7);
+    expect(responses.slice(1).every(response => response.body.link.slug.length === 8)).toBe(true);
+    expect(await generateSlug({ strategy: 'hash', targetUrl: 'https://example.com', attempt: 0 })).toHaveLength(7);
+  });
+
+  it('should stop lengthening generated slugs at the longest allowed slug', async () => {
+    // Every generated slug collided, for far more windows than length is left
+    for (let i = 0; i < 100 * 100; i++) {
+      recordSlugOutcome('hash', true);
+      recordSlugOutcome('words', true);
+    }
+    const hash = await generateSlug({ strategy: 'hash', targetUrl: 'https://example.com', attempt: 5 });
+    const words = await generateSlug({ strategy: 'words', targetUrl: 'https://example.com', attempt: 5 });
+
+    expect(hash).toMatch(/^[0-9A-Za-z]{64}$/);
+    expect(words.split('-')).toHaveLength(8);
+    expect(words.length).toBeLessThanOrEqual(64);
+  });
+});
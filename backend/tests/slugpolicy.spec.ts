@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+import { Env } from '../src/env';
+import { parseSlugPolicy, slugPolicyViolation } from '../src/lib/slugpolicy';
+
+const policyPath = join(tmpdir(), `slug-policy-${process.pid}.txt`);
+
+describe('Slug policy', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+    writeFileSync(policyPath, [
+      '# Offensive words',
+      'badword',
+      '=ass',
+      'allow badword-museum',
+      'allow status'
+    ].join('\n'));
+    Object.assign(Env, { SLUG_POLICY_FILE: policyPath, RESERVED_SLUGS: 'Pricing, careers' });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    Object.assign(Env, { SLUG_POLICY_FILE: '', RESERVED_SLUGS: '' });
+    rmSync(policyPath, { force: true });
+    await teardownTestDatabase();
+  });
+
+  it('should parse denied words, exact entries and exemptions', () => {
+    const policy = parseSlugPolicy('Bad_Word # comment\n=Ass\nallow Classic\n-\n');
+
+    expect(policy.denied).toEqual(['badword']);
+    expect(policy.deniedExact).toEqual(['ass']);
+    expect([...policy.allowed]).toEqual(['classic']);
+  });
+
+  it('should reserve built-in and configured words regardless of case', () => {
+    expect(slugPolicyViolation('API')).toBe('Slug "API" is reserved');
+    expect(slugPolicyViolation('health')).toBe('Slug "health" is reserved');
+    expect(slugPolicyViolation('pricing')).toBe('Slug "pricing" is reserved');
+    expect(slugPolicyViolation('api-docs')).toBeNull();
+  });
+
+  it('should match denied words inside slugs, through separators and leetspeak', () => {
+    expect(slugPolicyViolation('my-badword-link')).not.toBeNull();
+    expect(slugPolicyViolation('B4D_W0RD')).not.toBeNull();
+    expect(slugPolicyViolation('8adw0rd')).not.toBeNull();
+    expect(slugPolicyViolation('4ss')).not.toBeNull();
+    expect(slugPolicyViolation('classic')).toBeNull(); // "=ass" only matches the whole slug
+  });
+
+  it('should let exempted slugs through', () => {
+    expect(slugPolicyViolation('badword-museum')).toBeNull();
+    expect(slugPolicyViolation('status')).toBeNull();
+  });
+
+  it('should reject disallowed slugs with a validation error on create, update and import', async () => {
+    // Arrange
+    const link = await prismaTest.link.create({
+      data: { slug: 'fine', targetUrl: 'https://example.com' }
+    });
+
+    // Act
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'admin' });
+    const updated = await request(app)
+      .patch(`/api/v1/links/${link.id}`)
+      .send({ slug: 'so-b4dw0rd' });
+    const imported = await request(app)
+      .post('/api/v1/links/import')
+      .send([{ targetUrl: 'https://example.com', slug: 'careers' }]);
+
+    // Assert
+    expect(created.status).toBe(400);
+    expect(created.body.error.code).toBe('VALIDATION_ERROR');
+    expect(created.body.error.details).toEqual([
+      { field: 'slug', message: 'Slug "admin" is reserved' }
+    ]);
+    expect(updated.status).toBe(400);
+    expect(updated.body.error.details[0].message).toBe('Slug contains a word that is not allowed');
+    expect(imported.body.results[0].error.code).toBe('VALIDATION_ERROR');
+  });
+});
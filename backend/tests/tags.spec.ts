@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+
+describe('Link tags', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should create links with normalized tags and share tags between links', async () => {
+    // Act: Create two links with overlapping tags
+    const first = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/a', slug: 'tagged-a', tags: ['Marketing', 'q1 launch', 'marketing'] });
+    const second = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/b', slug: 'tagged-b', tags: ['marketing'] });
+
+    // Assert: Lowercased, deduplicated, and stored once
+    expect(first.status).toBe(201);
+    expect(first.body.link.tags).toEqual(['marketing', 'q1 launch']);
+    expect(second.body.link.tags).toEqual(['marketing']);
+    expect(await prismaTest.tag.count()).toBe(2);
+  });
+
+  it('should reject invalid tag names', async () => {
+    const response = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', tags: ['ok', 'no/slashes'] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details[0].field).toBe('tags.1');
+  });
+
+  it('should replace tags via PATCH and filter the list by tag', async () => {
+    // Arrange: Two tagged links
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'patch-tags',
+        targetUrl: 'https://example.com/patch',
+        tags: { create: [{ name: 'old' }] }
+      }
+    });
+    await prismaTest.link.create({
+      data: {
+        slug: 'other',
+        targetUrl: 'https://example.com/other',
+        tags: { connect: [{ name: 'old' }] }
+      }
+    });
+
+    // Act: Swap the first link's tags, then filter
+    const patched = await request(app)
+      .patch(`/api/v1/links/${link.id}`)
+      .send({ tags: ['new', 'shared'] });
+    const byNew = await request(app).get('/api/v1/links').query({ tag: 'NEW' });
+    const byOld = await request(app).get('/api/v1/links').query({ tag: 'old' });
+
+    // Assert: Only the patched link carries the new tags
+    expect(patched.status).toBe(200);
+    expect(patched.body.link.tags).toEqual(['new', 'shared']);
+    expect(byNew.body.total).toBe(1);
+    expect(byNew.body.links[0]).toMatchObject({ slug: 'patch-tags', tags: ['new', 'shared'] });
+    expect(byOld.body.links.map((l: any) => l.slug)).toEqual(['other']);
+  });
+
+  it('should list tags in use with link counts', async () => {
+    await prismaTest.link.create({
+      data: { slug: 'l1', targetUrl: 'https://example.com/1', tags: { create: [{ name: 'alpha' }, { name: 'beta' }] } }
+    });
+    await prismaTest.link.create({
+      data: { slug: 'l2', targetUrl: 'https://example.com/2', tags: { connect: [{ name: 'alpha' }] } }
+    });
+    await prismaTest.link.create({
+      data: {
+        slug: 'l3',
+        targetUrl: 'https://example.com/3',
+        archivedAt: new Date(),
+        tags: { create: [{ name: 'archived-only' }] }
+      }
+    });
+
+    const response = await request(app).get('/api/v1/tags');
+
+    expect(response.status).toBe(200);
+    expect(response.body.tags).toEqual([
+      { name: 'alpha', linkCount: 2 },
+      { name: 'beta', linkCount: 1 }
+    ]);
+  });
+
+  it('should aggregate click analytics across links with a tag', async () => {
+    // Arrange: Two tagged links and one untagged link with clicks
+    const a = await prismaTest.link.create({
+      data: { slug: 'agg-a', targetUrl: 'https://example.com/a', tags: { create: [{ name: 'campaign' }] } }
+    });
+    const b = await prismaTest.link.create({
+      data: { slug: 'agg-b', targetUrl: 'https://example.com/b', tags: { connect: [{ name: 'campaign' }] } }
+    });
+    const untagged = await prismaTest.link.create({
+      data: { slug: 'agg-c', targetUrl: 'https://example.com/c' }
+    });
+    await prismaTest.click.createMany({
+      data: [
+        { linkId: a.id, tsUtc: new Date('2025-01-01T10:00:00.000Z'), userAgent: 'test' },
+        { linkId: a.id, tsUtc: new Date('2025-01-02T10:00:00.000Z'), userAgent: 'test' },
+        { linkId: b.id, tsUtc: new Date('2025-01-02T11:00:00.000Z'), userAgent: 'test' },
+        { linkId: untagged.id, tsUtc: new Date('2025-01-02T12:00:00.000Z'), userAgent: 'test' }
+      ]
+    });
+    const range = { from: '2025-01-01T00:00:00.000Z', to: '2025-01-31T23:59:59.999Z' };
+
+    // Act: Request summary and daily analytics for the tag
+    const summary = await request(app).get('/api/v1/tags/campaign/analytics/summary').query(range);
+    const daily = await request(app).get('/api/v1/tags/campaign/analytics/daily').query(range);
+    const missing = await request(app).get('/api/v1/tags/nope/analytics/summary');
+
+    // Assert: Only clicks on tagged links are counted
+    expect(summary.status).toBe(200);
+    expect(summary.body).toEqual({
+      tag: 'campaign',
+      total: 3,
+      links: [
+        { id: a.id, slug: 'agg-a', total: 2 },
+        { id: b.id, slug: 'agg-b', total: 1 }
+      ]
+    });
+    expect(daily.body).toEqual([
+      { day: '2025-01-01', count: 1 },
+      { day: '2025-01-02', count: 2 }
+    ]);
+    expect(missing.status).toBe(404);
+  });
+});
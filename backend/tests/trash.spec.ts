@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { purgeExpiredLinks } from '../src/lib/trash';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+
+describe('Trash functionality', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should archive a link and hide it from the main list', async () => {
+    // Arrange: Create a link
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'to-archive',
+        targetUrl: 'https://example.com/archive'
+      }
+    });
+
+    // Act: Delete (archive) the link
+    const response = await request(app).delete(`/api/v1/links/${link.id}`);
+
+    // Assert: Archived link is returned with its purge date
+    expect(response.status).toBe(200);
+    expect(response.body.link.id).toBe(link.id);
+    expect(response.body.link.archivedAt).toBeTruthy();
+    expect(new Date(response.body.link.purgeAt).getTime())
+      .toBeGreaterThan(new Date(response.body.link.archivedAt).getTime());
+
+    // Assert: Gone from the main list, present in the trash
+    const listResponse = await request(app).get('/api/v1/links');
+    expect(listResponse.body.links).toHaveLength(0);
+
+    const trashResponse = await request(app).get('/api/v1/links/trash');
+    expect(trashResponse.status).toBe(200);
+    expect(trashResponse.body.links).toHaveLength(1);
+    expect(trashResponse.body.links[0].slug).toBe('to-archive');
+  });
+
+  it('should return 410 Gone when redirecting an archived link', async () => {
+    // Arrange: Create an archived link
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'archived-redirect',
+        targetUrl: 'https://example.com/gone',
+        archivedAt: new Date()
+      }
+    });
+
+    // Act: Follow the short link
+    const response = await request(app).get('/r/archived-redirect');
+
+    // Assert: 410 and no click recorded
+    expect(response.status).toBe(410);
+    expect(response.text).toBe('Gone');
+
+    const clicks = await prismaTest.click.count({ where: { linkId: link.id } });
+    expect(clicks).toBe(0);
+  });
+
+  it('should restore an archived link so it redirects again', async () => {
+    // Arrange: Create an archived link
+    const link = await prismaTest.link.create({
+      data: {
+        slug: 'restore-me',
+        targetUrl: 'https://example.com/restored',
+        archivedAt: new Date()
+      }
+    });
+
+    // Act: Restore it
+    const response = await request(app).post(`/api/v1/links/${link.id}/restore`);
+
+    // Assert: Link is active again
+    expect(response.status).toBe(200);
+    expect(response.body.link.slug).toBe('restore-me');
+
+    const redirect = await request(app).get('/r/restore-me');
+    expect(redirect.status).toBe(302);
+    expect(redirect.headers.location).toBe('https://example.com/restored');
+  });
+
+  it('should refuse to edit a trashed link or restore an active one', async () => {
+    // Arrange
+    const trashed = await prismaTest.link.create({
+      data: { slug: 'in-the-bin', targetUrl: 'https://example.com/bin', archivedAt: new Date() }
+    });
+    const active = await prismaTest.link.create({
+      data: { slug: 'still-live', targetUrl: 'https://example.com/live' }
+    });
+
+    // Act
+    const edit = await request(app)
+      .patch(`/api/v1/links/${trashed.id}`)
+      .send({ targetUrl: 'https://example.com/sneaky' });
+    const restore = await request(app).post(`/api/v1/links/${active.id}/restore`);
+
+    // Assert: Both are rejected and nothing changed
+    expect(edit.status).toBe(409);
+    expect(edit.body.error.code).toBe('LINK_ARCHIVED');
+    expect(restore.status).toBe(409);
+    expect(restore.body.error.code).toBe('NOT_ARCHIVED');
+    expect(await prismaTest.link.findUnique({ where: { id: trashed.id } })).toMatchObject({
+      targetUrl: 'https://example.com/bin',
+      archivedAt: expect.any(Date)
+    });
+  });
+
+  it('should return 404 when archiving a non-existent link', async () => {
+    const response = await request(app).delete('/api/v1/links/does-not-exist');
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.code).toBe('NOT_FOUND');
+  });
+
+  it('should purge only links archived longer than the retention period', async () => {
+    // Arrange: One link archived long ago, one archived recently, one active
+    const now = new Date('2025-06-30T00:00:00.000Z');
+    const expired = await prismaTest.link.create({
+      data: {
+        slug: 'expired-trash',
+        targetUrl: 'https://example.com/old',
+        archivedAt: new Date('2025-01-01T00:00:00.000Z')
+      }
+    });
+    await prismaTest.click.create({
+      data: { linkId: expired.id, userAgent: 'test' }
+    });
+    await prismaTest.link.create({
+      data: {
+        slug: 'recent-trash',
+        targetUrl: 'https://example.com/recent',
+        archivedAt: new Date('2025-06-29T00:00:00.000Z')
+      }
+    });
+    await prismaTest.link.create({
+      data: {
+        slug: 'active',
+        targetUrl: 'https://example.com/active'
+      }
+    });
+
+    // Act: Purge with the default 30 day retention
+    const purged = await purgeExpiredLinks(now);
+
+    // Assert: Only the expired link (and its clicks) are gone
+    expect(purged).toBe(1);
+    const remaining = await prismaTest.link.findMany({ orderBy: { slug: 'asc' } });
+    expect(remaining.map(link => link.slug)).toEqual(['active', 'recent-trash']);
+    expect(await prismaTest.click.count()).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+import { pickVariant } from '../src/lib/variants';
+
+const VARIANTS = [
+  { targetUrl: 'https://example.com/a', weight: 70 },
+  { targetUrl: 'https://example.com/b', weight: 30 }
+];
+
+describe('A/B variants', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should pick variants in proportion to their weights', () => {
+    const variants = [
+      { id: 'a', linkId: 'l', position: 0, targetUrl: 'https://example.com/a', weight: 7 },
+      { id: 'b', linkId: 'l', position: 1, targetUrl: 'https://example.com/b', weight: 3 },
+      { id: 'paused', linkId: 'l', position: 2, targetUrl: 'https://example.com/c', weight: 0 }
+    ];
+
+    const picks = Array.from({ length: 2000 }, () => pickVariant(variants)!.id);
+    const shareOfA = picks.filter(id => id === 'a').length / picks.length;
+
+    expect(shareOfA).toBeGreaterThan(0.65);
+    expect(shareOfA).toBeLessThan(0.75);
+    expect(picks).not.toContain('paused');
+    expect(pickVariant(variants, 'b')!.id).toBe('b');
+    expect(pickVariant(variants, 'paused')!.id).not.toBe('paused');
+  });
+
+  it('should split redirects and report clicks per variant', async () => {
+    // Arrange
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'landing', variants: VARIANTS });
+    const { id, variants } = created.body.link;
+
+    // Act
+    const locations: string[] = [];
+    for (let i = 0; i < 20; i++) {
+      const response = await request(app).get('/r/landing');
+      locations.push(response.headers.location);
+    }
+    const summary = await request(app).get(`/api/v1/links/${id}/analytics/summary`);
+    const daily = await request(app).get(`/api/v1/links/${id}/analytics/daily`);
+
+    // Assert: Every visitor went to a variant and each click says which
+    expect(variants).toEqual([
+      { id: expect.any(String), targetUrl: 'https://example.com/a', weight: 70 },
+      { id: expect.any(String), targetUrl: 'https://example.com/b', weight: 30 }
+    ]);
+    expect(locations.every(location => location === 'https://example.com/a' || location === 'https://example.com/b')).toBe(true);
+
+    const clicks = await prismaTest.click.findMany();
+    const countA = clicks.filter(click => click.variantId === variants[0].id).length;
+    expect(countA).toBe(locations.filter(location => location.endsWith('/a')).length);
+
+    expect(summary.body).toEqual({
+      total: 20,
+      bots: 0,
+      variants: [
+        { ...variants[0], total: countA },
+        { ...variants[1], total: 20 - countA }
+      ]
+    });
+    expect(daily.body).toHaveLength(1);
+    expect(daily.body[0].count).toBe(20);
+    expect(Object.values(daily.body[0].variants).reduce((sum: number, count) => sum + (count as number), 0)).toBe(20);
+  });
+
+  it('should keep sticky visitors on their variant', async () => {
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'sticky', variants: VARIANTS, stickyVariants: true });
+
+    const first = await request(app).get('/r/sticky');
+    const cookie = first.headers['set-cookie'][0].split(';')[0];
+    const repeats = await Promise.all(
+      Array.from({ length: 10 }, () => request(app).get('/r/sticky').set('Cookie', cookie))
+    );
+
+    expect(first.headers['set-cookie'][0]).toMatch(/Path=\/r\/sticky; .*HttpOnly; SameSite=Lax/);
+    expect(repeats.map(response => response.headers.location)).toEqual(Array(10).fill(first.headers.location));
+  });
+
+  it('should keep variant ids on update and validate weights', async () => {
+    const created = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com', slug: 'edit', variants: VARIANTS });
+    const [a] = created.body.link.variants;
+    const id = created.body.link.id;
+
+    const updated = await request(app)
+      .patch(`/api/v1/links/${id}`)
+      .send({ variants: [{ id: a.id, targetUrl: a.targetUrl, weight: 50 }, { targetUrl: 'https://example.com/c', weight: 50 }] });
+    const allPaused = await request(app)
+      .patch(`/api/v1/links/${id}`)
+      .send({ variants: [{ targetUrl: 'https://example.com/a', weight: 0 }] });
+    const removed = await request(app).patch(`/api/v1/links/${id}`).send({ variants: [] });
+    const redirect = await request(app).get('/r/edit');
+
+    expect(updated.body.link.variants[0]).toEqual({ id: a.id, targetUrl: a.targetUrl, weight: 50 });
+    expect(updated.body.link.variants[1]).toMatchObject({ targetUrl: 'https://example.com/c', weight: 50 });
+    expect(allPaused.status).toBe(400);
+    expect(removed.body.link.variants).toEqual([]);
+    expect(redirect.headers.location).toBe('https://example.com');
+  });
+});
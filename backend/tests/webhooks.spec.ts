@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import http from 'http';
+import { createHmac } from 'crypto';
+import type { AddressInfo, LookupFunction } from 'net';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest } from './setup';
+import { deliverDueWebhooks } from '../src/lib/webhooks';
+
+// Stand-in receiver; every host name resolves to it
+let server: http.Server;
+let origin: string;
+const received: { path: string; headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+const localLookup: LookupFunction = (hostname, options, callback) => {
+  if (options.all) {
+    callback(null, [{ address: '127.0.0.1', family: 4 }]);
+  } else {
+    callback(null, '127.0.0.1', 4);
+  }
+};
+
+function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    received.push({ path: req.url ?? '', headers: req.headers, body });
+    res.writeHead(req.url === '/broken' ? 500 : 204).end();
+  });
+}
+
+describe('Webhooks', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+    server = http.createServer(handleRequest);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://crm.test:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+    received.length = 0;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await teardownTestDatabase();
+  });
+
+  it('should manage webhook subscriptions', async () => {
+    // Act
+    const created = await request(app)
+      .post('/api/v1/webhooks')
+      .send({ url: `${origin}/hooks`, events: ['link.created', 'link.created', 'click.recorded'] });
+    const listed = await request(app).get('/api/v1/webhooks');
+    const paused = await request(app)
+      .patch(`/api/v1/webhooks/${created.body.webhook.id}`)
+      .send({ active: false, events: ['link.deleted'] });
+    const invalid = await request(app)
+      .post('/api/v1/webhooks')
+      .send({ url: 'http://10.0.0.5/hooks', events: ['link.exploded'] });
+    const deleted = await request(app).delete(`/api/v1/webhooks/${created.body.webhook.id}`);
+    const deletedAgain = await request(app).delete(`/api/v1/webhooks/${created.body.webhook.id}`);
+
+    // Assert: The secret is only shown once
+    expect(created.status).toBe(201);
+    expect(created.body.secret).toMatch(/^whsec_/);
+    expect(created.body.webhook).toEqual({
+      id: expect.any(String),
+      url: `${origin}/hooks`,
+      events: ['link.created', 'click.recorded'],
+      active: true,
+      createdAt: expect.any(String)
+    });
+    expect(listed.body.webhooks).toEqual([created.body.webhook]);
+    expect(paused.body.webhook).toMatchObject({ active: false, events: ['link.deleted'] });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.details.map((detail: { field: string }) => detail.field).sort()).toEqual(['events.0', 'url']);
+    expect(deleted.status).toBe(204);
+    expect(deletedAgain.status).toBe(404);
+  });
+
+  it('should deliver signed events from the outbox after the redirect', async () => {
+    // Arrange
+    const hook = await request(app)
+      .post('/api/v1/webhooks')
+      .send({ url: `${origin}/hooks`, events: ['link.created', 'link.deleted', 'click.recorded'] });
+    await request(app)
+      .post('/api/v1/webhooks')
+      .send({ url: `${origin}/paused`, events: ['click.recorded'], active: false });
+    const link = await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/offer', slug: 'offer' });
+    await request(app).patch(`/api/v1/links/${link.body.link.id}`).send({ tags: ['crm'] });
+
+    // Act
+    const redirect = await request(app).get('/r/offer').set('User-Agent', 'test-browser');
+    await request(app).delete(`/api/v1/links/${link.body.link.id}`);
+    await request(app).delete(`/api/v1/links/${link.body.link.id}`);
+    const queued = await prismaTest.webhookDelivery.count({ where: { status: 'pending' } });
+    const sent = await deliverDueWebhooks({ lookup: localLookup });
+    const log = await request(app).get(`/api/v1/webhooks/${hook.body.webhook.id}/deliveries`);
+
+    // Assert: Nothing is sent while redirecting; unsubscribed and repeated events are not queued
+    expect(redirect.status).toBe(302);
+    expect(queued).toBe(3);
+    expect(sent).toBe(3);
+    expect(received.map(({ headers }) => headers['x-webhook-event']).sort()).toEqual(['click.recorded', 'link.created', 'link.deleted']);
+
+    for (const { path, headers, body } of received) {
+      const [, timestamp, signature] = (headers['x-webhook-signature'] as string).match(/^t=(\d+),v1=([0-9a-f]{64})$/)!;
+      const expected = createHmac('sha256', hook.body.secret).update(`${timestamp}.${body}`).digest('hex');
+      expect(path).toBe('/hooks');
+      expect(headers['content-type']).toBe('application/json');
+      expect(signature).toBe(expected);
+    }
+
+    const click = JSON.parse(received.find(({ headers }) => headers['x-webhook-event'] === 'click.recorded')!.body);
+    expect(click).toEqual({
+      event: 'click.recorded',
+      occurredAt: expect.any(String),
+      data: {
+        click: expect.objectContaining({ linkId: link.body.link.id, slug: 'offer', userAgent: 'test-browser' })
+      }
+    });
+    expect(log.body.deliveries).toHaveLength(3);
+    expect(log.body.deliveries.every((delivery: any) => delivery.status === 'delivered' && delivery.attempts === 1)).toBe(true);
+    expect(log.body.deliveries.map((delivery: any) => delivery.id).sort())
+      .toEqual(received.map(({ headers }) => headers['x-webhook-delivery']).sort());
+  });
+
+  it('should queue link events only together with the change', async () => {
+    // Arrange
+    await request(app)
+      .post('/api/v1/webhooks')
+      .send({ url: `${origin}/hooks`, events: ['link.created', 'link.updated'] });
+    await request(app).post('/api/v1/links').send({ targetUrl: 'https://example.com/a', slug: 'taken' });
+    const other = await request(app).post('/api/v1/links').send({ targetUrl: 'https://example.com/b', slug: 'other' });
+
+    // Act: A partly failing import, a failing atomic import and a failing update
+    const imported = await request(app)
+      .post('/api/v1/links/import')
+      .send([
+        { targetUrl: 'https://example.com/1', slug: 'fresh' },
+        { targetUrl: 'https://example.com/2', slug: 'taken' }
+      ]);
+    const atomic = await request(app)
+      .post('/api/v1/links/import')
+      .query({ atomic: 'true' })
+      .send([
+        { targetUrl: 'https://example.com/3', slug: 'newer' },
+        { targetUrl: 'https://example.com/4', slug: 'taken' }
+      ]);
+    const renamed = await request(app).patch(`/api/v1/links/${other.body.link.id}`).send({ slug: 'taken' });
+    const events = await prismaTest.webhookDelivery.findMany();
+
+    // Assert: Only the three links actually created got an event
+    expect(imported.body.results.map((result: any) => result.status)).toEqual(['created', 'error']);
+    expect(atomic.status).toBe(422);
+    expect(renamed.status).toBe(409);
+    expect(events.every(event => event.event === 'link.created')).toBe(true);
+    expect(events.map(event => JSON.parse(event.payload).data.link.slug).sort()).toEqual(['fresh', 'other', 'taken']);
+  });
+
+  it('should retry failing receivers with backoff until giving up', async () => {
+    // Arrange
+    const hook = await request(app)
+      .post('/api/v1/webhooks')
+      .send({ url: `${origin}/broken`, events: ['link.created'] });
+    await request(app).post('/api/v1/links').send({ targetUrl: 'https://example.com/retry' });
+    const start = Date.now();
+
+    // Act: Attempt at once, then too early for the retry, then after the 30s backoff
+    const first = await deliverDueWebhooks({ now: new Date(start), lookup: localLookup });
+    const early = await deliverDueWebhooks({ now: new Date(start + 20 * 1000), lookup: localLookup });
+    const pending = await prismaTest.webhookDelivery.findFirstOrThrow();
+    const second = await deliverDueWebhooks({ now: new Date(start + 31 * 1000), lookup: localLookup });
+
+    // Keep going far enough ahead until the attempts run out
+    let now = start + 31 * 1000;
+    for (let attempt = 3; attempt <= 8; attempt++) {
+      now += 2 * 60 * 60 * 1000;
+      await deliverDueWebhooks({ now: new Date(now), lookup: localLookup });
+    }
+    const failed = await request(app)
+      .get(`/api/v1/webhooks/${hook.body.webhook.id}/deliveries`)
+      .query({ status: 'failed' });
+    const retried = await request(app)
+      .post(`/api/v1/webhooks/${hook.body.webhook.id}/deliveries/${pending.id}/retry`);
+
+    // Assert
+    expect([first, early, second]).toEqual([1, 0, 1]);
+    expect(pending).toMatchObject({ status: 'pending', attempts: 1, lastStatusCode: 500, lastError: 'Receiver answered 500' });
+    expect(pending.nextAttemptAt.getTime() - pending.lastAttemptAt!.getTime()).toBe(30 * 1000);
+    expect(pending.lastAttemptAt!.getTime()).toBeGreaterThanOrEqual(start);
+    expect(received).toHaveLength(8);
+    // Signatures carry the time of the attempt, not the time the run was asked about
+    for (const { headers } of received) {
+      const timestamp = Number((headers['x-webhook-signature'] as string).match(/^t=(\d+),/)![1]);
+      expect(timestamp).toBeGreaterThanOrEqual(Math.floor(start / 1000));
+      expect(timestamp).toBeLessThanOrEqual(Math.ceil(Date.now() / 1000));
+    }
+    expect(failed.body.deliveries).toHaveLength(1);
+    expect(failed.body.deliveries[0]).toMatchObject({ status: 'failed', attempts: 8, nextAttemptAt: null });
+    expect(retried.body.delivery).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import app from './test-app';
+import { setupTestDatabase, cleanupTestDatabase, teardownTestDatabase, prismaTest, TEST_USER_ID } from './setup';
+
+describe('Workspaces and roles', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('should keep links private to their workspace', async () => {
+    // Arrange: A second workspace with its own owner key and link, plus a link in ours
+    const created = await request(app)
+      .post('/api/v1/workspaces')
+      .send({ name: 'Team B' });
+    const otherAuth = `Bearer ${created.body.key}`;
+    const otherLink = await request(app)
+      .post('/api/v1/links')
+      .set('Authorization', otherAuth)
+      .send({ targetUrl: 'https://example.com/b', slug: 'team-b', tags: ['shared'] });
+    await request(app)
+      .post('/api/v1/links')
+      .send({ targetUrl: 'https://example.com/a', slug: 'team-a', tags: ['shared'] });
+    const id = otherLink.body.link.id;
+
+    // Act: Look at the other workspace's link with our key
+    const list = await request(app).get('/api/v1/links');
+    const summary = await request(app).get(`/api/v1/links/${id}/analytics/summary`);
+    const patch = await request(app).patch(`/api/v1/links/${id}`).send({ slug: 'stolen' });
+    const tagSummary = await request(app).get('/api/v1/tags/shared/analytics/summary');
+    const otherList = await request(app).get('/api/v1/links').set('Authorization', otherAuth);
+
+    // Assert: Each workspace only sees its own links; foreign ids look missing
+    expect(created.status).toBe(201);
+    expect(otherLink.status).toBe(201);
+    expect(list.body.links.map((l: any) => l.slug)).toEqual(['team-a']);
+    expect(summary.status).toBe(404);
+    expect(patch.status).toBe(404);
+    expect(tagSummary.body.links.map((l: any) => l.slug)).toEqual(['team-a']);
+    expect(otherList.body.links.map((l: any) => l.slug)).toEqual(['team-b']);
+    expect(await prismaTest.link.findUnique({ where: { id } })).toMatchObject({ slug: 'team-b' });
+  });
+
+  it('should list the current workspace with the caller role and members', async () => {
+    const response = await request(app).get('/api/v1/workspaces/current');
+
+    expect(response.status).toBe(200);
+    expect(response.body.workspace.id).toBe('default');
+    expect(response.body.role).toBe('owner');
+    expect(response.body.members).toContainEqual(
+      expect.objectContaining({ userId: TEST_USER_ID, role: 'owner' })
+    );
+  });
+
+  it('should limit keys to what the member role allows', async () => {
+    // Arrange: An editor with a write key
+    const member = await request(app)
+      .post('/api/v1/workspaces/current/members')
+      .send({ email: 'Editor@Example.com', role: 'editor' });
+    const userId = member.body.member.userId;
+    const { body } = await request(app)
+      .post('/api/v1/keys')
+      .send({ name: 'Editor key', userId, scopes: ['links:read', 'links:write'] });
+    const auth = `Bearer ${body.key}`;
+
+    // Act: Write as editor, try to mint a manager key, then demote to viewer and write again
+    const asEditor = await request(app)
+      .post('/api/v1/links')
+      .set('Authorization', auth)
+      .send({ targetUrl: 'https://example.com/editor' });
+    const tooMuch = await request(app)
+      .post('/api/v1/keys')
+      .send({ name: 'Nope', userId, scopes: ['keys:manage'] });
+    await request(app)
+      .post('/api/v1/workspaces/current/members')
+      .send({ email: 'editor@example.com', role: 'viewer' });
+    const asViewer = await request(app)
+      .post('/api/v1/links')
+      .set('Authorization', auth)
+      .send({ targetUrl: 'https://example.com/viewer' });
+
+    // Assert: Role changes apply to existing keys immediately
+    expect(member.body.member).toMatchObject({ email: 'editor@example.com', role: 'editor' });
+    expect(asEditor.status).toBe(201);
+    expect(tooMuch.status).toBe(400);
+    expect(asViewer.status).toBe(403);
+    expect(asViewer.body.error.message).toBe('The viewer role does not allow links:write');
+  });
+
+  it('should not let a read-only key create a workspace', async () => {
+    // Arrange: A viewer with a links:read key
+    const member = await request(app)
+      .post('/api/v1/workspaces/current/members')
+      .send({ email: 'viewer@example.com', role: 'viewer' });
+    const { body } = await request(app)
+      .post('/api/v1/keys')
+      .send({ name: 'Viewer key', userId: member.body.member.userId, scopes: ['links:read'] });
+
+    // Act
+    const response = await request(app)
+      .post('/api/v1/workspaces')
+      .set('Authorization', `Bearer ${body.key}`)
+      .send({ name: 'Escape hatch' });
+
+    // Assert: No workspace and no owner key were handed out
+    expect(response.status).toBe(403);
+    expect(response.body.key).toBeUndefined();
+    expect(await prismaTest.workspace.count({ where: { name: 'Escape hatch' } })).toBe(0);
+  });
+
+  it('should revoke access when a member is removed', async () => {
+    const member = await request(app)
+      .post('/api/v1/workspaces/current/members')
+      .send({ email: 'leaver@example.com', role: 'viewer' });
+    const { body } = await request(app)
+      .post('/api/v1/keys')
+      .send({ name: 'Leaver key', userId: member.body.member.userId, scopes: ['links:read'] });
+
+    const removed = await request(app).delete(`/api/v1/workspaces/current/members/${member.body.member.userId}`);
+    const after = await request(app).get('/api/v1/links').set('Authorization', `Bearer ${body.key}`);
+
+    expect(removed.status).toBe(204);
+    expect(after.status).toBe(401);
+  });
+
+  it('should refuse to remove or demote the last owner', async () => {
+    const demote = await request(app)
+      .post('/api/v1/workspaces/current/members')
+      .send({ email: 'test-suite@example.com', role: 'editor' });
+    const remove = await request(app).delete(`/api/v1/workspaces/current/members/${TEST_USER_ID}`);
+
+    expect(demote.status).toBe(409);
+    expect(demote.body.error.code).toBe('LAST_OWNER');
+    expect(remove.status).toBe(409);
+  });
+});
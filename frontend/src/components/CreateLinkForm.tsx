@@ -1,5 +1,6 @@
-import { useState } from 'react';
-import { createLink, ApiException } from '../lib/api';
+import { useEffect, useState } from 'react';
+import { createLink, listDomains, parseTagInput, applyUtm, ApiException } from '../lib/api';
+import type { Domain, OpenGraph, RedirectType, SlugStrategy, Utm } from '../lib/api';
 import Spinner from './Spinner.tsx';
 import Alert from './Alert.tsx';
 
@@ -7,14 +8,65 @@ interface CreateLinkFormProps {
   onLinkCreated: () => void;
 }
 
+interface FieldErrors {
+  targetUrl?: string;
+  slug?: string;
+  expiresAt?: string;
+  maxClicks?: string;
+  password?: string;
+  tags?: string;
+}
+
+// Fields of the UTM builder, in the order they are shown
+const UTM_INPUTS: { field: keyof Utm; label: string; placeholder: string }[] = [
+  { field: 'source', label: 'Source', placeholder: 'newsletter' },
+  { field: 'medium', label: 'Medium', placeholder: 'email' },
+  { field: 'campaign', label: 'Campaign', placeholder: 'spring_sale' },
+  { field: 'term', label: 'Term', placeholder: 'running shoes' },
+  { field: 'content', label: 'Content', placeholder: 'header_link' }
+];
+
 function CreateLinkForm({ onLinkCreated }: CreateLinkFormProps) {
   const [targetUrl, setTargetUrl] = useState('');
   const [slug, setSlug] = useState('');
+  const [slugStrategy, setSlugStrategy] = useState<SlugStrategy | ''>('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxClicks, setMaxClicks] = useState('');
+  const [password, setPassword] = useState('');
+  const [tags, setTags] = useState('');
+  const [domain, setDomain] = useState('');
+  const [redirectType, setRedirectType] = useState<RedirectType>(302);
+  const [forwardQuery, setForwardQuery] = useState(false);
+  const [forcePreview, setForcePreview] = useState(false);
+  const [utm, setUtm] = useState<Utm>({});
+  const [og, setOg] = useState<OpenGraph>({});
+  const [domains, setDomains] = useState<Domain[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [fieldErrors, setFieldErrors] = useState<{targetUrl?: string; slug?: string}>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [success, setSuccess] = useState<string | null>(null);
 
+  // Branded domains the workspace can create links on
+  useEffect(() => {
+    listDomains()
+      .then(setDomains)
+      .catch((err) => console.error('Error loading domains:', err));
+  }, []);
+
+  const brandedDomains = domains.filter(d => d.host !== null);
+  
+  // Only filled-in UTM fields are sent
+  const utmFields = Object.fromEntries(
+    Object.entries(utm).map(([field, value]) => [field, value?.trim()]).filter(([, value]) => value)
+  ) as Utm;
+  const hasUtm = Object.keys(utmFields).length > 0;
+  
+  // Same for the social card
+  const ogFields = Object.fromEntries(
+    Object.entries(og).map(([field, value]) => [field, value?.trim()]).filter(([, value]) => value)
+  ) as OpenGraph;
+  const hasOg = Object.keys(ogFields).length > 0;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -24,7 +76,7 @@ function CreateLinkForm({ onLinkCreated }: CreateLinkFormProps) {
     setSuccess(null);
     
     // Client-side validation
-    const errors: {targetUrl?: string; slug?: string} = {};
+    const errors: FieldErrors = {};
     
     if (!targetUrl.trim()) {
       errors.targetUrl = 'Target URL is required';
@@ -34,6 +86,22 @@ function CreateLinkForm({ onLinkCreated }: CreateLinkFormProps) {
       errors.slug = 'Slug must be 1-64 characters (letters, numbers, underscore, dash only)';
     }
     
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      errors.expiresAt = 'Expiry must be in the future';
+    }
+    
+    if (maxClicks && (!Number.isInteger(Number(maxClicks)) || Number(maxClicks) < 1)) {
+      errors.maxClicks = 'Max clicks must be a whole number of at least 1';
+    }
+    
+    if (password && password.length < 4) {
+      errors.password = 'Password must be at least 4 characters';
+    }
+    
+    if (parseTagInput(tags).some(tag => !/^[A-Za-z0-9][A-Za-z0-9 _-]{0,31}$/.test(tag))) {
+      errors.tags = 'Tags must be 1-32 characters (letters, numbers, space, underscore, dash only)';
+    }
+    
     if (Object.keys(errors).length > 0) {
       setFieldErrors(errors);
       return;
@@ -44,12 +112,33 @@ function CreateLinkForm({ onLinkCreated }: CreateLinkFormProps) {
       
       await createLink({
         targetUrl: targetUrl.trim(),
-        slug: slug.trim() || undefined
+        slug: slug.trim() || undefined,
+        // datetime-local values are in the browser's local time zone
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+        maxClicks: maxClicks ? Number(maxClicks) : undefined,
+        password: password || undefined,
+        tags: parseTagInput(tags),
+        domain: domain || undefined,
+        slugStrategy: slugStrategy || undefined,
+        redirectType,
+        forwardQuery,
+        forcePreview,
+        utm: hasUtm ? utmFields : undefined,
+        og: hasOg ? ogFields : undefined
       });
       
       // Clear form on success
       setTargetUrl('');
       setSlug('');
+      setExpiresAt('');
+      setMaxClicks('');
+      setPassword('');
+      setTags('');
+      setRedirectType(302);
+      setForwardQuery(false);
+      setForcePreview(false);
+      setUtm({});
+      setOg({});
       setSuccess('Short link created successfully!');
       
       // Auto-hide success message after 3 seconds
@@ -61,7 +150,11 @@ function CreateLinkForm({ onLinkCreated }: CreateLinkFormProps) {
     } catch (err) {
       if (err instanceof ApiException) {
         // Handle specific error types
-        if (err.message.includes('slug') && err.message.includes('taken')) {
+        const slugError = err.details?.find(detail => detail.field === 'slug');
+        if (slugError) {
+          // e.g. reserved or disallowed slugs
+          setFieldErrors({ slug: slugError.message });
+        } else if (err.message.includes('slug') && err.message.includes('taken')) {
           setFieldErrors({ slug: 'This slug is already taken. Please choose another.' });
         } else if (err.message.includes('URL')) {
           setFieldErrors({ targetUrl: err.message });
@@ -157,6 +250,33 @@ function CreateLinkForm({ onLinkCreated }: CreateLinkFormProps) {
         </small>
       </div>
       
+      {brandedDomains.length > 0 && (
+        <div style={{ marginBottom: '16px' }}>
+          <label htmlFor="domain" style={{ display: 'block', marginBottom: '6px', fontWeight: 'bold' }}>
+            Domain
+          </label>
+          <select
+            id="domain"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            disabled={submitting}
+            style={getInputStyle(false)}
+            aria-describedby="domain-help"
+          >
+            <option value="">Default domain</option>
+            {brandedDomains.map(d => (
+              <option key={d.id} value={d.host!}>{d.verified ? d.host : `${d.host} (unverified)`}</option>
+            ))}
+          </select>
+          <small 
+            id="domain-help"
+            style={{ color: '#6c757d', display: 'block', marginTop: '4px' }}
+          >
+            Slugs only need to be unique within the chosen domain
+          </small>
+        </div>
+      )}
+      
       <div style={{ marginBottom: '20px' }}>
         <label htmlFor="slug" style={{ display: 'block', marginBottom: '6px', fontWeight: 'bold' }}>
           Custom Slug (optional)
@@ -188,6 +308,280 @@ function CreateLinkForm({ onLinkCreated }: CreateLinkFormProps) {
         </small>
       </div>
       
+      {!slug.trim() && (
+        <div style={{ marginBottom: '20px' }}>
+          <label htmlFor="slugStrategy" style={{ display: 'block', marginBottom: '6px', fontWeight: 'bold' }}>
+            Generated Slug Style
+          </label>
+          <select
+            id="slugStrategy"
+            value={slugStrategy}
+            onChange={(e) => setSlugStrategy(e.target.value as SlugStrategy | '')}
+            disabled={submitting}
+            style={getInputStyle(false)}
+          >
+            <option value="">Server default</option>
+            <option value="random">Random characters</option>
+            <option value="words">Readable words</option>
+            <option value="counter">Sequential</option>
+            <option value="hash">Based on the target URL</option>
+          </select>
+        </div>
+      )}
+      
+      <div style={{ display: 'flex', gap: '16px', marginBottom: '20px' }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="expiresAt" style={{ display: 'block', marginBottom: '6px', fontWeight: 'bold' }}>
+            Expires At (optional)
+          </label>
+          <input
+            type="datetime-local"
+            id="expiresAt"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            disabled={submitting}
+            style={getInputStyle(!!fieldErrors.expiresAt)}
+            aria-describedby={fieldErrors.expiresAt ? "expiresAt-error" : undefined}
+          />
+          {fieldErrors.expiresAt && (
+            <div 
+              id="expiresAt-error"
+              style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px' }}
+              role="alert"
+            >
+              {fieldErrors.expiresAt}
+            </div>
+          )}
+        </div>
+        
+        <div style={{ flex: 1 }}>
+          <label htmlFor="maxClicks" style={{ display: 'block', marginBottom: '6px', fontWeight: 'bold' }}>
+            Max Clicks (optional)
+          </label>
+          <input
+            type="number"
+            id="maxClicks"
+            min={1}
+            step={1}
+            value={maxClicks}
+            onChange={(e) => setMaxClicks(e.target.value)}
+            placeholder="Unlimited"
+            disabled={submitting}
+            style={getInputStyle(!!fieldErrors.maxClicks)}
+            aria-describedby={fieldErrors.maxClicks ? "maxClicks-error" : "maxClicks-help"}
+          />
+          {fieldErrors.maxClicks && (
+            <div 
+              id="maxClicks-error"
+              style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px' }}
+              role="alert"
+            >
+              {fieldErrors.maxClicks}
+            </div>
+          )}
+          <small 
+            id="maxClicks-help"
+            style={{ color: '#6c757d', display: 'block', marginTop: '4px' }}
+          >
+            Use 1 for a one-time link
+          </small>
+        </div>
+      </div>
+      
+      <div style={{ marginBottom: '20px' }}>
+        <label htmlFor="password" style={{ display: 'block', marginBottom: '6px', fontWeight: 'bold' }}>
+          Password (optional)
+        </label>
+        <input
+          type="password"
+          id="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="new-password"
+          disabled={submitting}
+          style={getInputStyle(!!fieldErrors.password)}
+          aria-describedby={fieldErrors.password ? "password-error" : "password-help"}
+        />
+        {fieldErrors.password && (
+          <div 
+            id="password-error"
+            style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px' }}
+            role="alert"
+          >
+            {fieldErrors.password}
+          </div>
+        )}
+        <small 
+          id="password-help"
+          style={{ color: '#6c757d', display: 'block', marginTop: '4px' }}
+        >
+          Visitors must enter this password before they are redirected
+        </small>
+      </div>
+      
+      <div style={{ marginBottom: '20px' }}>
+        <label htmlFor="tags" style={{ display: 'block', marginBottom: '6px', fontWeight: 'bold' }}>
+          Tags (optional)
+        </label>
+        <input
+          type="text"
+          id="tags"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="marketing, q1 launch"
+          disabled={submitting}
+          style={getInputStyle(!!fieldErrors.tags)}
+          aria-describedby={fieldErrors.tags ? "tags-error" : "tags-help"}
+        />
+        {fieldErrors.tags && (
+          <div 
+            id="tags-error"
+            style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px' }}
+            role="alert"
+          >
+            {fieldErrors.tags}
+          </div>
+        )}
+        <small 
+          id="tags-help"
+          style={{ color: '#6c757d', display: 'block', marginTop: '4px' }}
+        >
+          Separate tags with commas. Click a tag in the list below to filter by it
+        </small>
+      </div>
+      
+      <div style={{ marginBottom: '20px' }}>
+        <label htmlFor="redirectType" style={{ display: 'block', marginBottom: '6px', fontWeight: 'bold' }}>
+          Redirect Type
+        </label>
+        <select
+          id="redirectType"
+          value={redirectType}
+          onChange={(e) => setRedirectType(Number(e.target.value) as RedirectType)}
+          disabled={submitting}
+          style={getInputStyle(false)}
+          aria-describedby="redirectType-help"
+        >
+          <option value={302}>302 Found (temporary, default)</option>
+          <option value={301}>301 Moved Permanently</option>
+          <option value={307}>307 Temporary Redirect (keeps method)</option>
+          <option value={308}>308 Permanent Redirect (keeps method)</option>
+        </select>
+        <small 
+          id="redirectType-help"
+          style={{ color: '#6c757d', display: 'block', marginTop: '4px' }}
+        >
+          Use a permanent redirect for vanity links, 307/308 for forms and APIs
+        </small>
+      </div>
+      
+      <div style={{ marginBottom: '20px' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <input
+            type="checkbox"
+            checked={forwardQuery}
+            onChange={(e) => setForwardQuery(e.target.checked)}
+            disabled={submitting}
+          />
+          Forward query parameters to the target
+        </label>
+        <small style={{ color: '#6c757d', display: 'block', marginTop: '4px' }}>
+          Visiting /r/slug?ref=x passes ref=x on, without overriding parameters the target already has
+        </small>
+      </div>
+      
+      <div style={{ marginBottom: '20px' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <input
+            type="checkbox"
+            checked={forcePreview}
+            onChange={(e) => setForcePreview(e.target.checked)}
+            disabled={submitting}
+          />
+          Always show the preview page first
+        </label>
+        <small style={{ color: '#6c757d', display: 'block', marginTop: '4px' }}>
+          Visitors see the destination and click Continue; any link can be previewed by adding + to it
+        </small>
+      </div>
+      
+      <fieldset style={{ border: '1px solid #e9ecef', borderRadius: '4px', padding: '12px 16px', marginBottom: '20px' }}>
+        <legend style={{ fontWeight: 'bold', padding: '0 4px' }}>UTM Parameters (optional)</legend>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+          {UTM_INPUTS.map(({ field, label, placeholder }) => (
+            <div key={field}>
+              <label htmlFor={`utm-${field}`} style={{ display: 'block', marginBottom: '4px', fontSize: '13px' }}>
+                {label}
+              </label>
+              <input
+                type="text"
+                id={`utm-${field}`}
+                value={utm[field] ?? ''}
+                onChange={(e) => setUtm({ ...utm, [field]: e.target.value })}
+                placeholder={placeholder}
+                disabled={submitting}
+                style={getInputStyle(false)}
+              />
+            </div>
+          ))}
+        </div>
+        {hasUtm && targetUrl.trim() && (
+          <small style={{ color: '#6c757d', display: 'block', marginTop: '8px', wordBreak: 'break-all' }}>
+            Visitors are sent to {applyUtm(targetUrl.trim(), utmFields)}
+          </small>
+        )}
+      </fieldset>
+      
+      <fieldset style={{ border: '1px solid #e9ecef', borderRadius: '4px', padding: '12px 16px', marginBottom: '20px' }}>
+        <legend style={{ fontWeight: 'bold', padding: '0 4px' }}>Social Preview (optional)</legend>
+        <div style={{ marginBottom: '12px' }}>
+          <label htmlFor="og-title" style={{ display: 'block', marginBottom: '4px', fontSize: '13px' }}>
+            Title
+          </label>
+          <input
+            type="text"
+            id="og-title"
+            value={og.title ?? ''}
+            onChange={(e) => setOg({ ...og, title: e.target.value })}
+            placeholder="Defaults to the destination page's title"
+            maxLength={200}
+            disabled={submitting}
+            style={getInputStyle(false)}
+          />
+        </div>
+        <div style={{ marginBottom: '12px' }}>
+          <label htmlFor="og-description" style={{ display: 'block', marginBottom: '4px', fontSize: '13px' }}>
+            Description
+          </label>
+          <textarea
+            id="og-description"
+            value={og.description ?? ''}
+            onChange={(e) => setOg({ ...og, description: e.target.value })}
+            maxLength={500}
+            rows={2}
+            disabled={submitting}
+            style={{ ...getInputStyle(false), resize: 'vertical' }}
+          />
+        </div>
+        <div>
+          <label htmlFor="og-image" style={{ display: 'block', marginBottom: '4px', fontSize: '13px' }}>
+            Image URL
+          </label>
+          <input
+            type="url"
+            id="og-image"
+            value={og.image ?? ''}
+            onChange={(e) => setOg({ ...og, image: e.target.value })}
+            placeholder="https://example.com/card.png"
+            disabled={submitting}
+            style={getInputStyle(false)}
+          />
+        </div>
+        <small style={{ color: '#6c757d', display: 'block', marginTop: '8px' }}>
+          Shown when the link is pasted into Slack, X, Facebook and other apps; their visits are counted as bots
+        </small>
+      </fieldset>
+      
       <button
         type="submit"
         disabled={submitting}
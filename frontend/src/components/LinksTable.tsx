@@ -1,11 +1,75 @@
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import type { Link as LinkType } from '../lib/api';
+import { updateLink, archiveLink, checkLinkHealth, formatApiError, parseTagInput } from '../lib/api';
+import type { Link as LinkType, LinkUpdateRequest } from '../lib/api';
+
+interface PaginationProps {
+  total: number;
+  page: number; // 1-based
+  pageSize: number;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+}
 
 interface LinksTableProps {
   links: LinkType[];
+  onLinkUpdated?: () => void;
+  isFiltered?: boolean;
+  pagination?: PaginationProps;
+  onTagClick?: (tag: string) => void;
 }
 
-function LinksTable({ links }: LinksTableProps) {
+function LinksTable({ links, onLinkUpdated, isFiltered = false, pagination, onTagClick }: LinksTableProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTargetUrl, setDraftTargetUrl] = useState('');
+  const [draftSlug, setDraftSlug] = useState('');
+  const [draftTags, setDraftTags] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+
+  const startEditing = (link: LinkType) => {
+    setEditingId(link.id);
+    setDraftTargetUrl(link.targetUrl);
+    setDraftSlug(link.slug);
+    setDraftTags((link.tags ?? []).join(', '));
+    setEditError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setEditError(null);
+  };
+
+  const saveEditing = async (link: LinkType) => {
+    // Only send the fields that actually changed
+    const changes: LinkUpdateRequest = {};
+    if (draftTargetUrl.trim() !== link.targetUrl) changes.targetUrl = draftTargetUrl.trim();
+    if (draftSlug.trim() !== link.slug) changes.slug = draftSlug.trim();
+    const tags = parseTagInput(draftTags);
+    if (tags.join(',') !== (link.tags ?? []).join(',')) changes.tags = tags;
+
+    if (Object.keys(changes).length === 0) {
+      cancelEditing();
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await updateLink(link.id, changes);
+      setEditingId(null);
+      setEditError(null);
+      onLinkUpdated?.();
+    } catch (err) {
+      setEditError(formatApiError(err));
+      console.error('Error updating link:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -29,6 +93,33 @@ function LinksTable({ links }: LinksTableProps) {
     }
   };
 
+  const moveToTrash = async (link: LinkType) => {
+    if (!window.confirm(`Move "${link.slug}" to the trash? It will stop redirecting until restored.`)) {
+      return;
+    }
+
+    try {
+      await archiveLink(link.id);
+      onLinkUpdated?.();
+    } catch (err) {
+      window.alert(formatApiError(err));
+      console.error('Error archiving link:', err);
+    }
+  };
+
+  const recheckHealth = async (link: LinkType) => {
+    try {
+      setCheckingId(link.id);
+      await checkLinkHealth(link.id);
+      onLinkUpdated?.();
+    } catch (err) {
+      window.alert(formatApiError(err));
+      console.error('Error checking link health:', err);
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
   const truncateUrl = (url: string, maxLength: number = 50) => {
     if (url.length <= maxLength) return url;
     return url.substring(0, maxLength) + '...';
@@ -72,6 +163,48 @@ function LinksTable({ links }: LinksTableProps) {
     transition: 'background-color 0.2s'
   };
 
+  const secondaryButtonStyle = {
+    ...buttonStyle,
+    backgroundColor: '#6c757d'
+  };
+
+  const dangerButtonStyle = {
+    ...buttonStyle,
+    backgroundColor: '#dc3545'
+  };
+
+  const editInputStyle = {
+    width: '100%',
+    padding: '4px 8px',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontSize: '13px',
+    boxSizing: 'border-box' as const
+  };
+
+  const tagChipStyle = {
+    display: 'inline-block',
+    backgroundColor: '#e7f1ff',
+    color: '#0056b3',
+    border: '1px solid #b8daff',
+    borderRadius: '12px',
+    padding: '2px 8px',
+    margin: '0 4px 4px 0',
+    fontSize: '12px',
+    cursor: onTagClick ? 'pointer' : 'default'
+  };
+
+  const brokenBadgeStyle = {
+    display: 'inline-block',
+    backgroundColor: '#fef2f2',
+    color: '#dc2626',
+    border: '1px solid #fecaca',
+    borderRadius: '12px',
+    padding: '2px 8px',
+    fontSize: '12px',
+    marginTop: '4px'
+  };
+
   const linkStyle = {
     color: '#007bff',
     textDecoration: 'none',
@@ -88,8 +221,14 @@ function LinksTable({ links }: LinksTableProps) {
         border: '1px solid #e9ecef',
         borderRadius: '8px'
       }}>
-        <p>No links found. Create your first short link above!</p>
-        <small>Try running <code>npm run seed</code> in the backend to add sample data.</small>
+        {isFiltered ? (
+          <p>No links match your search or tag filter.</p>
+        ) : (
+          <>
+            <p>No links found. Create your first short link above!</p>
+            <small>Try running <code>npm run seed</code> in the backend to add sample data.</small>
+          </>
+        )}
       </div>
     );
   }
@@ -101,30 +240,110 @@ function LinksTable({ links }: LinksTableProps) {
           <tr>
             <th style={thStyle}>Analytics</th>
             <th style={thStyle}>Target URL</th>
+            <th style={thStyle}>Tags</th>
             <th style={thStyle}>Created</th>
             <th style={thStyle}>Visit Link</th>
             <th style={thStyle}>Copy</th>
+            <th style={thStyle}>Manage</th>
           </tr>
         </thead>
         <tbody>
           {links.map((link) => {
             const backendUrl = import.meta.env.VITE_API_BASE || 'http://localhost:3000';
-            const shortUrl = `${backendUrl}/r/${link.slug}`;
+            const shortUrl = link.shortUrl ?? `${backendUrl}/r/${link.slug}`;
+            const isEditing = editingId === link.id;
             
             return (
               <tr key={link.id}>
                 <td style={tdStyle}>
-                  <Link to={`/links/${link.id}`} style={linkStyle}>
-                    {link.slug}
-                  </Link>
+                  {isEditing ? (
+                    <input
+                      type="text"
+                      value={draftSlug}
+                      onChange={(e) => setDraftSlug(e.target.value)}
+                      disabled={saving}
+                      style={editInputStyle}
+                      aria-label="Slug"
+                    />
+                  ) : (
+                    <Link to={`/links/${link.id}`} style={linkStyle}>
+                      {link.slug}
+                    </Link>
+                  )}
                 </td>
                 <td style={tdStyle}>
-                  <span 
-                    style={{ color: '#6c757d' }}
-                    title={link.targetUrl}
-                  >
-                    {truncateUrl(link.targetUrl)}
-                  </span>
+                  {isEditing ? (
+                    <>
+                      <input
+                        type="url"
+                        value={draftTargetUrl}
+                        onChange={(e) => setDraftTargetUrl(e.target.value)}
+                        disabled={saving}
+                        style={editInputStyle}
+                        aria-label="Target URL"
+                      />
+                      {editError && (
+                        <div
+                          style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px' }}
+                          role="alert"
+                        >
+                          {editError}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <span 
+                        style={{ color: '#6c757d' }}
+                        title={link.targetUrl}
+                      >
+                        {truncateUrl(link.targetUrl)}
+                      </span>
+                      {link.health?.status === 'broken' && (
+                        <div>
+                          <span
+                            style={brokenBadgeStyle}
+                            title={`${link.health.error ?? `Answered ${link.health.statusCode}`} (checked ${new Date(link.health.checkedAt).toLocaleString()})`}
+                          >
+                            Broken{link.health.statusCode !== null && ` (${link.health.statusCode})`}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => recheckHealth(link)}
+                            disabled={checkingId === link.id}
+                            style={{ ...secondaryButtonStyle, marginLeft: '6px', padding: '2px 8px' }}
+                          >
+                            {checkingId === link.id ? 'Checking...' : 'Recheck'}
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </td>
+                <td style={tdStyle}>
+                  {isEditing ? (
+                    <input
+                      type="text"
+                      value={draftTags}
+                      onChange={(e) => setDraftTags(e.target.value)}
+                      disabled={saving}
+                      style={editInputStyle}
+                      placeholder="comma, separated"
+                      aria-label="Tags"
+                    />
+                  ) : (
+                    (link.tags ?? []).map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => onTagClick?.(tag)}
+                        style={tagChipStyle}
+                        title={`Show links tagged "${tag}"`}
+                      >
+                        {tag}
+                      </button>
+                    ))
+                  )}
                 </td>
                 <td style={tdStyle}>
                   <span style={{ color: '#6c757d' }}>
@@ -162,11 +381,83 @@ function LinksTable({ links }: LinksTableProps) {
                     Copy
                   </button>
                 </td>
+                <td style={tdStyle}>
+                  {isEditing ? (
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <button
+                        onClick={() => saveEditing(link)}
+                        disabled={saving}
+                        style={buttonStyle}
+                        title="Save changes to this link"
+                      >
+                        {saving ? 'Saving...' : 'Save'}
+                      </button>
+                      <button
+                        onClick={cancelEditing}
+                        disabled={saving}
+                        style={secondaryButtonStyle}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <button
+                        onClick={() => startEditing(link)}
+                        disabled={editingId !== null}
+                        style={secondaryButtonStyle}
+                        title="Edit target URL, slug or tags"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => moveToTrash(link)}
+                        disabled={editingId !== null}
+                        style={dangerButtonStyle}
+                        title="Move this link to the trash"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </td>
               </tr>
             );
           })}
         </tbody>
       </table>
+      
+      {pagination && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginTop: '12px',
+          fontSize: '14px',
+          color: '#6c757d'
+        }}>
+          <span>
+            Showing {(pagination.page - 1) * pagination.pageSize + 1}
+            –{(pagination.page - 1) * pagination.pageSize + links.length} of {pagination.total}
+          </span>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <button
+              onClick={pagination.onPrevious}
+              disabled={!pagination.hasPrevious}
+              style={secondaryButtonStyle}
+            >
+              ← Previous
+            </button>
+            <button
+              onClick={pagination.onNext}
+              disabled={!pagination.hasNext}
+              style={secondaryButtonStyle}
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,215 @@
+import { useState, useEffect, useMemo } from 'react';
+import { getQrCode, formatApiError } from '../lib/api';
+import type { QrFormat, QrLevel, QrOptions } from '../lib/api';
+import Alert from './Alert.tsx';
+
+interface QrCodeCardProps {
+  linkId: string;
+}
+
+// Largest logo the backend accepts
+const MAX_LOGO_BYTES = 8 * 1024;
+
+function QrCodeCard({ linkId }: QrCodeCardProps) {
+  const [size, setSize] = useState(512);
+  const [margin, setMargin] = useState(4);
+  const [level, setLevel] = useState<QrLevel | ''>('');
+  const [fg, setFg] = useState('#000000');
+  const [bg, setBg] = useState('#ffffff');
+  const [logo, setLogo] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<QrFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = useMemo<QrOptions>(() => ({
+    size,
+    margin,
+    level: level || undefined,
+    fg,
+    bg,
+    logo: logo ?? undefined
+  }), [size, margin, level, fg, bg, logo]);
+
+  // Re-render the preview whenever an option changes
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getQrCode(linkId, { ...options, format: 'svg' })
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setPreviewUrl(objectUrl);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(formatApiError(err));
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [linkId, options]);
+
+  const handleLogoChange = (file: File | undefined) => {
+    if (!file) {
+      setLogo(null);
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError('Logo must be at most 8 KB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setLogo(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleDownload = async (format: QrFormat) => {
+    try {
+      setDownloading(format);
+      const blob = await getQrCode(linkId, { ...options, format });
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `qr-${linkId}.${format}`;
+      anchor.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(formatApiError(err));
+      console.error('Error downloading QR code:', err);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const labelStyle = {
+    display: 'block',
+    marginBottom: '4px',
+    fontWeight: 'bold' as const,
+    fontSize: '14px'
+  };
+
+  const inputStyle = {
+    padding: '6px 10px',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    fontSize: '14px',
+    width: '100%',
+    boxSizing: 'border-box' as const
+  };
+
+  const buttonStyle = {
+    backgroundColor: '#007bff',
+    color: 'white',
+    border: 'none',
+    padding: '8px 16px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '14px',
+    marginRight: '8px'
+  };
+
+  return (
+    <div>
+      {error && (
+        <div style={{ marginBottom: '16px' }}>
+          <Alert type="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '24px', flexWrap: 'wrap', alignItems: 'flex-start' }}>
+        <div
+          style={{
+            width: '200px',
+            height: '200px',
+            border: '1px solid #e9ecef',
+            backgroundColor: 'white',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}
+        >
+          {previewUrl
+            ? <img src={previewUrl} alt="QR code of the short link" style={{ width: '100%', height: '100%' }} />
+            : <small style={{ color: '#6c757d' }}>Loading...</small>}
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', minWidth: '280px', flex: 1 }}>
+          <div>
+            <label htmlFor="qr-size" style={labelStyle}>Size (px)</label>
+            <input
+              type="number"
+              id="qr-size"
+              min={64}
+              max={2048}
+              value={size}
+              onChange={(e) => setSize(Number(e.target.value))}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label htmlFor="qr-margin" style={labelStyle}>Margin (modules)</label>
+            <input
+              type="number"
+              id="qr-margin"
+              min={0}
+              max={16}
+              value={margin}
+              onChange={(e) => setMargin(Number(e.target.value))}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label htmlFor="qr-fg" style={labelStyle}>Foreground</label>
+            <input type="color" id="qr-fg" value={fg} onChange={(e) => setFg(e.target.value)} style={inputStyle} />
+          </div>
+          <div>
+            <label htmlFor="qr-bg" style={labelStyle}>Background</label>
+            <input type="color" id="qr-bg" value={bg} onChange={(e) => setBg(e.target.value)} style={inputStyle} />
+          </div>
+          <div>
+            <label htmlFor="qr-level" style={labelStyle}>Error Correction</label>
+            <select
+              id="qr-level"
+              value={level}
+              onChange={(e) => setLevel(e.target.value as QrLevel | '')}
+              style={inputStyle}
+            >
+              <option value="">Default (M, or H with a logo)</option>
+              <option value="L">L (~7%)</option>
+              <option value="M">M (~15%)</option>
+              <option value="Q">Q (~25%)</option>
+              <option value="H">H (~30%)</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="qr-logo" style={labelStyle}>Center Logo (PNG, max 8 KB)</label>
+            <input
+              type="file"
+              id="qr-logo"
+              accept="image/png"
+              onChange={(e) => handleLogoChange(e.target.files?.[0])}
+              style={{ fontSize: '14px' }}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div style={{ marginTop: '16px' }}>
+        <button onClick={() => handleDownload('png')} disabled={downloading !== null} style={buttonStyle}>
+          {downloading === 'png' ? 'Downloading...' : 'Download PNG'}
+        </button>
+        <button onClick={() => handleDownload('svg')} disabled={downloading !== null} style={buttonStyle}>
+          {downloading === 'svg' ? 'Downloading...' : 'Download SVG'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default QrCodeCard;
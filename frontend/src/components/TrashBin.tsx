@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { listTrash, restoreLink, formatApiError } from '../lib/api';
+import type { ArchivedLink } from '../lib/api';
+import Spinner from './Spinner.tsx';
+import Alert from './Alert.tsx';
+
+interface TrashBinProps {
+  onLinkRestored: () => void;
+}
+
+function TrashBin({ onLinkRestored }: TrashBinProps) {
+  const [links, setLinks] = useState<ArchivedLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchTrash = async () => {
+    try {
+      setLoading(true);
+      setLinks(await listTrash());
+      setError(null);
+    } catch (err) {
+      setError(formatApiError(err));
+      console.error('Error fetching trash:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const handleRestore = async (link: ArchivedLink) => {
+    try {
+      setRestoringId(link.id);
+      await restoreLink(link.id);
+      setLinks((current) => current.filter((l) => l.id !== link.id));
+      onLinkRestored();
+    } catch (err) {
+      setError(formatApiError(err));
+      console.error('Error restoring link:', err);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const tdStyle = {
+    padding: '8px 12px',
+    borderBottom: '1px solid #e9ecef',
+    fontSize: '14px',
+    textAlign: 'left' as const
+  };
+
+  const buttonStyle = {
+    backgroundColor: '#28a745',
+    color: 'white',
+    border: 'none',
+    padding: '6px 12px',
+    borderRadius: '4px',
+    fontSize: '12px',
+    cursor: 'pointer'
+  };
+
+  if (loading) {
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', padding: '20px' }}>
+        <Spinner size="small" />
+        <span style={{ color: '#6c757d' }}>Loading trash...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div style={{ marginBottom: '12px' }}>
+          <Alert type="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        </div>
+      )}
+
+      {links.length === 0 ? (
+        <p style={{ color: '#6c757d' }}>The trash is empty.</p>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white' }}>
+          <thead>
+            <tr>
+              <th style={tdStyle}>Slug</th>
+              <th style={tdStyle}>Target URL</th>
+              <th style={tdStyle}>Deleted</th>
+              <th style={tdStyle}>Purged on</th>
+              <th style={tdStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {links.map((link) => (
+              <tr key={link.id}>
+                <td style={tdStyle}>{link.slug}</td>
+                <td style={{ ...tdStyle, color: '#6c757d' }}>{link.targetUrl}</td>
+                <td style={tdStyle}>{new Date(link.archivedAt).toLocaleDateString()}</td>
+                <td style={tdStyle}>{new Date(link.purgeAt).toLocaleDateString()}</td>
+                <td style={tdStyle}>
+                  <button
+                    onClick={() => handleRestore(link)}
+                    disabled={restoringId !== null}
+                    style={buttonStyle}
+                    title="Restore this link so it redirects again"
+                  >
+                    {restoringId === link.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default TrashBin;
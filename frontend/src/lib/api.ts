@@ -2,6 +2,9 @@
 
 const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:3000';
 
+// API key sent with every management API request (see backend keys:create)
+const API_KEY = import.meta.env.VITE_API_KEY;
+
 // Type definitions matching backend responses
 export interface Link {
   id: string;
@@ -9,32 +12,177 @@ export interface Link {
   targetUrl: string;
   shortUrl?: string;
   createdAt: string;
+  expiresAt?: string | null;
+  maxClicks?: number | null;
+  passwordProtected?: boolean;
+  tags?: string[];
+  domain?: string | null; // Branded domain host; null for the default domain
+  redirectType?: RedirectType;
+  forwardQuery?: boolean;
+  utm?: Utm | null;
+  og?: OpenGraph | null;
+  rules?: RedirectRule[];
+  variants?: LinkVariant[];
+  stickyVariants?: boolean;
+  forcePreview?: boolean;
+  health?: LinkHealth | null; // null until the target was checked
+}
+
+// Latest background check of a link's target URL
+export interface LinkHealth {
+  status: 'ok' | 'broken'; // Broken = unreachable or a 4xx/5xx answer
+  statusCode: number | null; // null when the target could not be reached
+  latencyMs: number;
+  finalUrl: string | null; // Where redirects ended, if the target redirected
+  error: string | null;
+  checkedAt: string;
+}
+
+// Weighted A/B destination; weights are relative (70/30 = 7/3)
+export interface LinkVariant {
+  id?: string; // Keep to preserve the variant's analytics on update
+  targetUrl: string;
+  weight: number;
+}
+
+// Alternative target for visitors matching every condition that is set
+export interface RedirectRule {
+  id?: string; // Set by the backend
+  targetUrl: string;
+  os?: ('ios' | 'android' | 'windows' | 'macos' | 'linux')[];
+  devices?: ('mobile' | 'tablet' | 'desktop')[];
+  languages?: string[]; // e.g. "de" also matches "de-AT"
+  countries?: string[]; // ISO country codes such as "US"
+}
+
+// UTM parameters appended to a link's target on redirect
+export interface Utm {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+// Social card shown to chat apps and social networks unfurling the link;
+// missing fields fall back to the destination page
+export interface OpenGraph {
+  title?: string;
+  description?: string;
+  image?: string; // http(s) URL
+}
+
+export interface ArchivedLink extends Link {
+  archivedAt: string;
+  purgeAt: string; // When the link is permanently deleted
 }
 
 export interface LinkCreateRequest {
   targetUrl: string;
   slug?: string;
+  expiresAt?: string | null; // ISO datetime string
+  maxClicks?: number | null;
+  password?: string | null;
+  tags?: string[]; // Replaces the link's tags on update
+  domain?: string | null; // Branded domain host; null or omitted for the default domain
+  slugStrategy?: SlugStrategy; // How to generate the slug when none is given
+  redirectType?: RedirectType; // Default 302
+  forwardQuery?: boolean; // Pass the visitor's query string on to the target
+  utm?: Utm | null; // Replaces the link's UTM fields on update; null removes them
+  og?: OpenGraph | null; // Replaces the link's social card on update; null removes it
+  rules?: RedirectRule[]; // Tried in order before targetUrl; replaces the current rules
+  variants?: LinkVariant[]; // Split traffic instead of targetUrl; replaces the current variants
+  stickyVariants?: boolean; // Keep visitors on their first variant
+  forcePreview?: boolean; // Show every visitor the preview page (/p/:slug) first
 }
 
+export type SlugStrategy = 'random' | 'words' | 'counter' | 'hash';
+
+// 301/308 are permanent; 307/308 keep the request method (and also redirect PUT, DELETE, ...)
+export type RedirectType = 301 | 302 | 307 | 308;
+
+export type LinkUpdateRequest = Partial<Omit<LinkCreateRequest, 'slugStrategy'>>;
+
 export interface LinkCreateResponse {
   link: Link;
 }
 
 export interface LinksListResponse {
   links: Link[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export type LinkSort = 'createdAt' | 'slug' | 'clicks';
+
+export interface LinksListParams {
+  limit?: number;
+  cursor?: string;
+  q?: string;
+  tag?: string;
+  sort?: LinkSort;
+  order?: 'asc' | 'desc';
+}
+
+export interface Tag {
+  name: string;
+  linkCount: number; // Active links carrying the tag
+}
+
+export interface TagsListResponse {
+  tags: Tag[];
+}
+
+export interface Domain {
+  id: string;
+  host: string | null; // null for the default domain
+  isDefault: boolean;
+  verified: boolean; // Only verified domains serve redirects
+  verification: { type: 'TXT'; name: string; value: string } | null; // Record still to publish
+  createdAt: string;
+}
+
+export interface DomainsListResponse {
+  domains: Domain[];
+}
+
+export interface TrashListResponse {
+  links: ArchivedLink[];
+}
+
+export interface ArchiveLinkResponse {
+  link: ArchivedLink;
 }
 
 export interface AnalyticsSummaryResponse {
-  total: number;
+  total: number; // Visitor clicks
+  bots: number; // Link-preview crawler hits, not included in total
+  variants?: (LinkVariant & { id: string; total: number })[]; // Only for A/B links
 }
 
 export interface DailyStats {
   day: string; // YYYY-MM-DD format
   count: number;
+  variants?: Record<string, number>; // Clicks per variant id, only for A/B links
 }
 
 export type AnalyticsDailyResponse = DailyStats[];
 
+export type QrFormat = 'svg' | 'png';
+
+// Error correction: L recovers ~7% of the code, H ~30% (needed with a logo)
+export type QrLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrOptions {
+  format?: QrFormat; // Default svg
+  size?: number; // Pixels, 64-2048 (default 256)
+  margin?: number; // Quiet zone in modules, 0-16 (default 4)
+  level?: QrLevel; // Default M, or H with a logo
+  fg?: string; // Hex colors such as #000000
+  bg?: string;
+  logo?: string; // data: URL of a PNG (or JPEG/SVG for SVG codes), at most 8 KB
+}
+
 export interface DateRange {
   from?: string; // ISO datetime string
   to?: string;   // ISO datetime string
@@ -72,6 +220,7 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
   const config: RequestInit = {
     headers: {
       'Content-Type': 'application/json',
+      ...(API_KEY && { Authorization: `Bearer ${API_KEY}` }),
       ...options.headers,
     },
     ...options,
@@ -121,9 +270,17 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
 }
 
 // API functions
-export async function listLinks(): Promise<Link[]> {
-  const response = await apiRequest<LinksListResponse>('/api/v1/links');
-  return response.links;
+export async function listLinks(listParams: LinksListParams = {}): Promise<LinksListResponse> {
+  const params = new URLSearchParams();
+  if (listParams.limit) params.append('limit', String(listParams.limit));
+  if (listParams.cursor) params.append('cursor', listParams.cursor);
+  if (listParams.q) params.append('q', listParams.q);
+  if (listParams.tag) params.append('tag', listParams.tag);
+  if (listParams.sort) params.append('sort', listParams.sort);
+  if (listParams.order) params.append('order', listParams.order);
+  
+  const query = params.toString() ? `?${params.toString()}` : '';
+  return apiRequest<LinksListResponse>(`/api/v1/links${query}`);
 }
 
 export async function createLink(body: LinkCreateRequest): Promise<Link> {
@@ -134,7 +291,51 @@ export async function createLink(body: LinkCreateRequest): Promise<Link> {
   return response.link;
 }
 
-export async function getSummary(id: string, range?: DateRange): Promise<number> {
+export async function updateLink(id: string, body: LinkUpdateRequest): Promise<Link> {
+  const response = await apiRequest<LinkCreateResponse>(`/api/v1/links/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+  return response.link;
+}
+
+export async function archiveLink(id: string): Promise<ArchivedLink> {
+  const response = await apiRequest<ArchiveLinkResponse>(`/api/v1/links/${id}`, {
+    method: 'DELETE',
+  });
+  return response.link;
+}
+
+export async function checkLinkHealth(id: string): Promise<LinkHealth> {
+  const response = await apiRequest<{ health: LinkHealth }>(`/api/v1/links/${id}/health`, {
+    method: 'POST',
+  });
+  return response.health;
+}
+
+export async function restoreLink(id: string): Promise<Link> {
+  const response = await apiRequest<LinkCreateResponse>(`/api/v1/links/${id}/restore`, {
+    method: 'POST',
+  });
+  return response.link;
+}
+
+export async function listTrash(): Promise<ArchivedLink[]> {
+  const response = await apiRequest<TrashListResponse>('/api/v1/links/trash');
+  return response.links;
+}
+
+export async function listTags(): Promise<Tag[]> {
+  const response = await apiRequest<TagsListResponse>('/api/v1/tags');
+  return response.tags;
+}
+
+export async function listDomains(): Promise<Domain[]> {
+  const response = await apiRequest<DomainsListResponse>('/api/v1/domains');
+  return response.domains;
+}
+
+export async function getSummary(id: string, range?: DateRange): Promise<AnalyticsSummaryResponse> {
   const params = new URLSearchParams();
   if (range?.from) params.append('from', range.from);
   if (range?.to) params.append('to', range.to);
@@ -143,7 +344,7 @@ export async function getSummary(id: string, range?: DateRange): Promise<number>
   const response = await apiRequest<AnalyticsSummaryResponse>(
     `/api/v1/links/${id}/analytics/summary${query}`
   );
-  return response.total;
+  return response;
 }
 
 export async function getDaily(id: string, range?: DateRange): Promise<DailyStats[]> {
@@ -158,6 +359,64 @@ export async function getDaily(id: string, range?: DateRange): Promise<DailyStat
   return response;
 }
 
+// QR codes are images, so errors are the only JSON this endpoint returns
+export async function getQrCode(id: string, options: QrOptions = {}): Promise<Blob> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined && value !== '') params.append(key, String(value));
+  }
+  
+  const query = params.toString() ? `?${params.toString()}` : '';
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/api/v1/links/${id}/qr${query}`, {
+      headers: API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {},
+    });
+  } catch (error) {
+    throw new ApiException(
+      0,
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Network request failed'
+    );
+  }
+  
+  if (!response.ok) {
+    const data = await response.json().catch(() => null) as ApiError | null;
+    throw new ApiException(
+      response.status,
+      data?.error.code ?? 'PARSE_ERROR',
+      data?.error.message ?? 'Failed to parse server response',
+      data?.error.details
+    );
+  }
+  
+  return response.blob();
+}
+
+// Utility function to preview a target URL with UTM parameters applied,
+// the same way the backend does on redirect
+export function applyUtm(targetUrl: string, utm: Utm): string {
+  try {
+    const url = new URL(targetUrl);
+    for (const [field, value] of Object.entries(utm)) {
+      if (value) {
+        url.searchParams.set(`utm_${field}`, value);
+      }
+    }
+    return url.toString();
+  } catch {
+    return targetUrl;
+  }
+}
+
+// Utility function to turn comma-separated tag input into a tag list
+export function parseTagInput(input: string): string[] {
+  return input
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => tag.length > 0);
+}
+
 // Utility function to format API errors for display
 export function formatApiError(error: unknown): string {
   if (error instanceof ApiException) {
@@ -1,15 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { getSummary, getDaily, ApiException } from '../lib/api';
-import type { DailyStats } from '../lib/api';
+import type { AnalyticsSummaryResponse, DailyStats } from '../lib/api';
 import ClicksChart from '../components/ClicksChart.tsx';
 import Alert from '../components/Alert.tsx';
+import QrCodeCard from '../components/QrCodeCard.tsx';
 
 function LinkDetailPage() {
   const { id } = useParams<{ id: string }>();
   
   // State for analytics data
   const [totalClicks, setTotalClicks] = useState<number>(0);
+  const [botClicks, setBotClicks] = useState<number>(0);
+  const [variants, setVariants] = useState<AnalyticsSummaryResponse['variants']>();
   const [dailyData, setDailyData] = useState<DailyStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -48,7 +51,9 @@ function LinkDetailPage() {
         getDaily(id, dateRange)
       ]);
 
-      setTotalClicks(summary);
+      setTotalClicks(summary.total);
+      setBotClicks(summary.bots);
+      setVariants(summary.variants);
       setDailyData(daily);
     } catch (err) {
       if (err instanceof ApiException) {
@@ -156,9 +161,47 @@ function LinkDetailPage() {
         </div>
         <small style={{ color: '#6c757d' }}>
           From {new Date(fromDate).toLocaleDateString()} to {new Date(toDate).toLocaleDateString()}
+          {!loading && botClicks > 0 && ` · plus ${botClicks.toLocaleString()} link preview bot visits, not counted`}
         </small>
       </div>
 
+      {/* A/B variant breakdown */}
+      {variants && variants.length > 0 && (
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0, marginBottom: '16px' }}>Variants</h3>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', borderBottom: '1px solid #dee2e6' }}>
+                <th style={{ padding: '8px' }}>Destination</th>
+                <th style={{ padding: '8px' }}>Weight</th>
+                <th style={{ padding: '8px' }}>Clicks</th>
+                <th style={{ padding: '8px' }}>Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map(variant => (
+                <tr key={variant.id} style={{ borderBottom: '1px solid #e9ecef' }}>
+                  <td style={{ padding: '8px', wordBreak: 'break-all' }}>{variant.targetUrl}</td>
+                  <td style={{ padding: '8px' }}>{variant.weight}</td>
+                  <td style={{ padding: '8px' }}>{variant.total.toLocaleString()}</td>
+                  <td style={{ padding: '8px' }}>
+                    {totalClicks > 0 ? `${Math.round((variant.total / totalClicks) * 100)}%` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* QR code for print */}
+      {id && (
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0, marginBottom: '16px' }}>QR Code</h3>
+          <QrCodeCard linkId={id} />
+        </div>
+      )}
+
       {/* Chart */}
       <div style={{ marginBottom: '20px' }}>
         <h3 style={{ marginBottom: '16px' }}>Daily Clicks</h3>
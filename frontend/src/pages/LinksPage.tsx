@@ -1,21 +1,56 @@
-import { useState, useEffect } from 'react';
-import { listLinks, ApiException } from '../lib/api';
-import type { Link } from '../lib/api';
+import { useState, useEffect, useCallback } from 'react';
+import { listLinks, listTags, ApiException } from '../lib/api';
+import type { Link, LinkSort, Tag } from '../lib/api';
 import CreateLinkForm from '../components/CreateLinkForm.tsx';
 import LinksTable from '../components/LinksTable.tsx';
 import Spinner from '../components/Spinner.tsx';
 import Alert from '../components/Alert.tsx';
+import TrashBin from '../components/TrashBin.tsx';
+
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'slug:asc', label: 'Slug A-Z' },
+  { value: 'slug:desc', label: 'Slug Z-A' },
+  { value: 'clicks:desc', label: 'Most clicked' },
+  { value: 'clicks:asc', label: 'Least clicked' }
+];
 
 function LinksPage() {
   const [links, setLinks] = useState<Link[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  
+  // Listing state: search, tag filter, sort and a stack of cursors for the pages visited
+  const [searchInput, setSearchInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState('');
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [sort, setSort] = useState<LinkSort>('createdAt');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [pageCursors, setPageCursors] = useState<(string | undefined)[]>([undefined]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  
+  const currentCursor = pageCursors[pageCursors.length - 1];
 
-  const fetchLinks = async () => {
+  const fetchLinks = useCallback(async () => {
     try {
       setLoading(true);
-      const fetchedLinks = await listLinks();
-      setLinks(fetchedLinks);
+      const response = await listLinks({
+        limit: PAGE_SIZE,
+        cursor: currentCursor,
+        q: query || undefined,
+        tag: tag || undefined,
+        sort,
+        order
+      });
+      setLinks(response.links);
+      setNextCursor(response.nextCursor);
+      setTotal(response.total);
       setError(null);
     } catch (err) {
       if (err instanceof ApiException) {
@@ -27,15 +62,58 @@ function LinksPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [currentCursor, query, tag, sort, order]);
 
   useEffect(() => {
     fetchLinks();
-  }, []);
+  }, [fetchLinks]);
+
+  // Refresh the tag filter options whenever the listing changes
+  useEffect(() => {
+    listTags()
+      .then(setTags)
+      .catch((err) => console.error('Error fetching tags:', err));
+  }, [links]);
+
+  const resetPaging = () => setPageCursors([undefined]);
 
   const handleLinkCreated = () => {
-    // Refresh the list after a new link is created
-    fetchLinks();
+    // New links sort first by default, so go back to the first page
+    if (pageCursors.length > 1) {
+      resetPaging();
+    } else {
+      fetchLinks();
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(searchInput.trim());
+    resetPaging();
+  };
+
+  const handleTagChange = (value: string) => {
+    setTag(value);
+    resetPaging();
+  };
+
+  const handleSortChange = (value: string) => {
+    const [newSort, newOrder] = value.split(':') as [LinkSort, 'asc' | 'desc'];
+    setSort(newSort);
+    setOrder(newOrder);
+    resetPaging();
+  };
+
+  const handleNextPage = () => {
+    if (nextCursor) {
+      setPageCursors([...pageCursors, nextCursor]);
+    }
+  };
+
+  const handlePreviousPage = () => {
+    if (pageCursors.length > 1) {
+      setPageCursors(pageCursors.slice(0, -1));
+    }
   };
 
   return (
@@ -48,6 +126,71 @@ function LinksPage() {
       <div>
         <h2>Your Links</h2>
         
+        <form onSubmit={handleSearch} style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search slug or target URL"
+            aria-label="Search links"
+            style={{
+              flex: 1,
+              padding: '8px 12px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              fontSize: '14px'
+            }}
+          />
+          <button
+            type="submit"
+            style={{
+              backgroundColor: '#007bff',
+              color: 'white',
+              border: 'none',
+              padding: '8px 16px',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            Search
+          </button>
+          <select
+            value={tag}
+            onChange={(e) => handleTagChange(e.target.value)}
+            aria-label="Filter by tag"
+            style={{
+              padding: '8px 12px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              fontSize: '14px'
+            }}
+          >
+            <option value="">All tags</option>
+            {tags.map((option) => (
+              <option key={option.name} value={option.name}>
+                {option.name} ({option.linkCount})
+              </option>
+            ))}
+          </select>
+          <select
+            value={`${sort}:${order}`}
+            onChange={(e) => handleSortChange(e.target.value)}
+            aria-label="Sort links"
+            style={{
+              padding: '8px 12px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              fontSize: '14px'
+            }}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </form>
+        
         {loading && (
           <div style={{ 
             display: 'flex', 
@@ -71,7 +214,44 @@ function LinksPage() {
         )}
         
         {!loading && !error && (
-          <LinksTable links={links} />
+          <LinksTable
+            links={links}
+            onLinkUpdated={fetchLinks}
+            isFiltered={query !== '' || tag !== ''}
+            onTagClick={handleTagChange}
+            pagination={{
+              total,
+              page: pageCursors.length,
+              pageSize: PAGE_SIZE,
+              hasPrevious: pageCursors.length > 1,
+              hasNext: nextCursor !== null,
+              onPrevious: handlePreviousPage,
+              onNext: handleNextPage
+            }}
+          />
+        )}
+      </div>
+
+      <div style={{ marginTop: '40px' }}>
+        <button
+          onClick={() => setShowTrash(!showTrash)}
+          style={{
+            background: 'none',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            padding: '6px 12px',
+            cursor: 'pointer'
+          }}
+          aria-expanded={showTrash}
+        >
+          {showTrash ? 'Hide trash' : 'Show trash'}
+        </button>
+        
+        {showTrash && (
+          <div style={{ marginTop: '16px' }}>
+            <h2>Trash</h2>
+            <TrashBin onLinkRestored={fetchLinks} />
+          </div>
         )}
       </div>
     </div>